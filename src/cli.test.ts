@@ -0,0 +1,257 @@
+import { execFileSync } from 'node:child_process';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { EXIT_ERROR, EXIT_MAJOR, EXIT_NO_MAJOR, runCli } from './cli';
+
+describe('runCli', () => {
+  let repoDir: string;
+
+  const runGit = (...args: string[]) =>
+    execFileSync('git', args, { cwd: repoDir, encoding: 'utf-8' }).trim();
+
+  const commitManifest = (manifest: Record<string, string>, tag: string) => {
+    writeFileSync(
+      join(repoDir, '.release-please-manifest.json'),
+      JSON.stringify(manifest)
+    );
+    runGit('add', '.');
+    runGit('commit', '--quiet', '-m', tag);
+    runGit('tag', tag);
+  };
+
+  const cli = async (...argv: string[]) => {
+    const stdout: string[] = [];
+    const stderr: string[] = [];
+    const code = await runCli(argv, {
+      cwd: repoDir,
+      stdout: (text) => stdout.push(text),
+      stderr: (text) => stderr.push(text)
+    });
+
+    return { code, stdout: stdout.join('\n'), stderr: stderr.join('\n') };
+  };
+
+  beforeAll(() => {
+    repoDir = mkdtempSync(join(tmpdir(), 'detect-major-changes-'));
+    runGit('init', '--quiet');
+    runGit('config', 'user.email', 'test@example.com');
+    runGit('config', 'user.name', 'Test');
+    writeFileSync(
+      join(repoDir, 'release-please-config.json'),
+      JSON.stringify({ packages: { 'packages/foo': { component: 'foo' } } })
+    );
+    commitManifest({ 'packages/foo': '1.2.3', 'packages/bar': '0.4.2' }, 'one');
+    commitManifest({ 'packages/foo': '1.3.0', 'packages/bar': '0.5.0' }, 'two');
+    mkdirSync(join(repoDir, 'packages/foo'), { recursive: true });
+    writeFileSync(
+      join(repoDir, 'packages/foo/CHANGELOG.md'),
+      [
+        '# Changelog',
+        '',
+        '## [2.0.0](https://github.com/o/r/compare/foo-v1.3.0...foo-v2.0.0) (2024-01-01)',
+        '',
+        '### ⚠ BREAKING CHANGES',
+        '',
+        '* remove the legacy API',
+        ''
+      ].join('\n')
+    );
+    commitManifest(
+      { 'packages/foo': '2.0.0', 'packages/bar': '0.5.0' },
+      'three'
+    );
+  });
+
+  afterAll(() => {
+    rmSync(repoDir, { recursive: true, force: true });
+  });
+
+  it('should print a table and exit with the major code when majors are found', async () => {
+    const result = await cli('--base', 'two', '--head', 'three');
+
+    expect(result.code).toBe(EXIT_MAJOR);
+    expect(result.stdout).toContain('! packages/foo  1.3.0  2.0.0  major');
+    expect(result.stdout).toContain('🚨 Major version bump(s) detected!');
+  });
+
+  it('should print breaking changes from the changelog', async () => {
+    const result = await cli('--base', 'two', '--head', 'three');
+
+    expect(result.stdout).toContain(
+      '⚠ Breaking changes in packages/foo 2.0.0:\n  - remove the legacy API'
+    );
+    expect(result.stderr).toBe('');
+  });
+
+  it('should warn when a changelog has no section for the new version', async () => {
+    const result = await cli(
+      '--base',
+      'one',
+      '--head',
+      'two',
+      '--breaking-semantics',
+      'caret-compatible'
+    );
+
+    expect(result.stderr).toBe(
+      'Warning: No 0.5.0 section found in packages/bar/CHANGELOG.md for packages/bar'
+    );
+  });
+
+  it('should exit with the no major code when no majors are found', async () => {
+    const result = await cli('--base', 'one', '--head', 'two');
+
+    expect(result.code).toBe(EXIT_NO_MAJOR);
+    expect(result.stdout).toContain('  packages/foo  1.2.3  1.3.0  minor');
+    expect(result.stdout).toContain('✅ No major version bumps detected');
+  });
+
+  it('should default the head ref to HEAD', async () => {
+    const result = await cli('--base', 'two');
+
+    expect(result.code).toBe(EXIT_MAJOR);
+  });
+
+  it('should pass analysis options through', async () => {
+    const result = await cli(
+      '--base',
+      'one',
+      '--head',
+      'two',
+      '--breaking-semantics',
+      'caret-compatible'
+    );
+
+    expect(result.code).toBe(EXIT_MAJOR);
+    expect(result.stdout).toContain('! packages/bar  0.4.2  0.5.0  major');
+  });
+
+  it('should warn about anomalies and optionally fail on them', async () => {
+    const warned = await cli('--base', 'three', '--head', 'two');
+
+    expect(warned.code).toBe(EXIT_NO_MAJOR);
+    expect(warned.stderr).toContain(
+      'Warning: packages/foo was downgraded from 2.0.0 to 1.3.0'
+    );
+
+    const failed = await cli(
+      '--base',
+      'three',
+      '--head',
+      'two',
+      '--fail-on-anomalies'
+    );
+
+    expect(failed.code).toBe(EXIT_ERROR);
+    expect(failed.stderr).toContain(
+      'Error: Manifest anomalies found in packages/foo'
+    );
+  });
+
+  it('should skip excluded paths', async () => {
+    const result = await cli(
+      '--base',
+      'two',
+      '--head',
+      'three',
+      '--exclude-path',
+      'packages/foo'
+    );
+
+    expect(result.code).toBe(EXIT_NO_MAJOR);
+    expect(result.stdout).not.toContain('packages/foo');
+  });
+
+  it('should print JSON with resolved packages', async () => {
+    const result = await cli(
+      '--base',
+      'two',
+      '--head',
+      'three',
+      '--format',
+      'json',
+      '--config',
+      'release-please-config.json'
+    );
+    const output = JSON.parse(result.stdout);
+
+    expect(result.code).toBe(EXIT_MAJOR);
+    expect(output.majorBumps).toEqual({ 'packages/foo': ['1.3.0', '2.0.0'] });
+    expect(output.packages['packages/foo'].tag).toBe('foo-v2.0.0');
+    expect(output.breakingChanges['packages/foo'].notes).toEqual([
+      'remove the legacy API'
+    ]);
+  });
+
+  it('should include release tags in the table when a config is given', async () => {
+    const result = await cli(
+      '--base',
+      'two',
+      '--head',
+      'three',
+      '--config',
+      'release-please-config.json'
+    );
+
+    expect(result.stdout).toContain(
+      '! packages/foo  1.3.0  2.0.0  major  foo-v2.0.0'
+    );
+  });
+
+  it('should compare against the latest release tags with --compare-to tags', async () => {
+    runGit('tag', 'foo-v1.2.3', 'one');
+    runGit('tag', 'foo-v1.3.0', 'two');
+
+    const result = await cli(
+      '--compare-to',
+      'tags',
+      '--config',
+      'release-please-config.json'
+    );
+
+    expect(result.code).toBe(EXIT_MAJOR);
+    expect(result.stdout).toContain(
+      '! packages/foo  1.3.0  2.0.0  major  foo-v2.0.0'
+    );
+    expect(result.stdout).not.toContain('packages/bar');
+    expect(result.stderr).toBe(
+      'Warning: Skipping packages/bar, set its component or package-name in --config to compare it against its own release tags'
+    );
+  });
+
+  it('should exit with the error code when --base is missing', async () => {
+    const result = await cli();
+
+    expect(result.code).toBe(EXIT_ERROR);
+    expect(result.stderr).toBe('Error: Missing required option --base');
+  });
+
+  it('should exit with the error code for invalid option values', async () => {
+    const result = await cli('--base', 'one', '--format', 'xml');
+
+    expect(result.code).toBe(EXIT_ERROR);
+    expect(result.stderr).toBe(
+      'Error: Invalid --format "xml", expected one of: table, json'
+    );
+  });
+
+  it('should exit with the error code when a ref is not available', async () => {
+    const result = await cli('--base', 'missing-ref');
+
+    expect(result.code).toBe(EXIT_ERROR);
+    expect(result.stderr).toContain(
+      'Ref missing-ref is not available in the local repository'
+    );
+  });
+
+  it('should print usage with --help', async () => {
+    const result = await cli('--help');
+
+    expect(result.code).toBe(EXIT_NO_MAJOR);
+    expect(result.stdout).toContain(
+      'Usage: release-please-detect-major-changes'
+    );
+  });
+});
@@ -0,0 +1,344 @@
+import { parseArgs } from 'node:util';
+import { describeAnomaly, detectAnomalies } from './utils/anomalies';
+import { type BreakingChanges, getBreakingChanges } from './utils/changelog';
+import {
+  type PackageDetails,
+  getConfigAtRef,
+  resolvePackages
+} from './utils/config';
+import { createGitSource, listTags } from './utils/files';
+import {
+  type ManifestAnalysis,
+  type ManifestDetection,
+  detectManifestChanges
+} from './utils/manifest';
+import { COMPARISON_MODES, detectChangesSinceRelease } from './utils/tags';
+import { VALIDATION_MODES, formatProblems } from './utils/validation';
+import {
+  BREAKING_SEMANTICS,
+  DETECT_LEVELS,
+  PRERELEASE_HANDLING,
+  VERSIONING_STRATEGIES,
+  parseVersioningConfig
+} from './utils/version';
+
+export const EXIT_NO_MAJOR = 0;
+export const EXIT_ERROR = 1;
+export const EXIT_MAJOR = 2;
+
+const FORMATS = ['table', 'json'] as const;
+
+const USAGE = `Usage: release-please-detect-major-changes --base <ref> [options]
+
+Detect major version bumps between two refs of a release-please manifest in
+the local git repository.
+
+Options:
+  --base <ref>                  Git ref to compare from (required unless --compare-to is tags)
+  --head <ref>                  Git ref to compare to (default: HEAD)
+  --compare-to <value>          ${COMPARISON_MODES.join(' | ')} (default: base), where tags compares
+                                against the latest release tag of each package
+  --manifest <path>             Manifest file (default: .release-please-manifest.json)
+  --config <path>               Release-please config file, to resolve components and tags
+  --breaking-semantics <value>  ${BREAKING_SEMANTICS.join(' | ')} (default: strict-major)
+  --detect-level <value>        ${DETECT_LEVELS.join(' | ')} (default: major)
+  --prerelease-handling <value> ${PRERELEASE_HANDLING.join(' | ')} (default: report)
+  --versioning <path: strategy> Versioning strategy for a path or glob, repeatable
+                                (${VERSIONING_STRATEGIES.join(' | ')}, default: semver)
+  --include-path <glob>         Only analyze matching paths, repeatable
+  --exclude-path <glob>         Skip matching paths, repeatable
+  --fail-on-anomalies           Exit with the error code on downgrades, removals or skipped majors
+  --validation <value>          ${VALIDATION_MODES.join(' | ')} (default: strict)
+  --format <value>              ${FORMATS.join(' | ')} (default: table)
+  -h, --help                    Show this help
+
+Exit codes:
+  ${EXIT_NO_MAJOR}  No major version bumps detected
+  ${EXIT_ERROR}  An error occurred
+  ${EXIT_MAJOR}  Major version bump(s) detected
+`;
+
+export interface CliOptions {
+  cwd?: string;
+  stdout?: (text: string) => void;
+  stderr?: (text: string) => void;
+}
+
+/**
+ * Check that an option value is one of a fixed set of values
+ * @param name - Option name
+ * @param value - Option value
+ * @param choices - Allowed values
+ * @returns The option value
+ * @throws Error if the value is not one of the allowed values
+ */
+function parseChoice<T extends string>(
+  name: string,
+  value: string,
+  choices: readonly T[]
+): T {
+  if (!choices.includes(value as T)) {
+    throw new Error(
+      `Invalid --${name} "${value}", expected one of: ${choices.join(', ')}`
+    );
+  }
+
+  return value as T;
+}
+
+/**
+ * Render the changed paths of an analysis as a plain text table
+ * @param analysis - Manifest analysis
+ * @param packages - Resolved package details, to include release tags (or null)
+ * @returns Table with one row per changed path, with detected bumps marked
+ */
+function formatTable(
+  analysis: ManifestAnalysis,
+  packages: Record<string, PackageDetails> | null
+): string {
+  const rows = Object.entries(analysis.changes).map(([path, change]) => {
+    const row = [
+      path in analysis.majorBumps ? `! ${path}` : `  ${path}`,
+      change.oldVersion ?? '-',
+      change.newVersion ?? '-',
+      change.bump
+    ];
+
+    return packages ? [...row, packages[path]?.tag ?? '-'] : row;
+  });
+
+  if (rows.length === 0) {
+    return 'No version changes';
+  }
+
+  const header = ['  Path', 'Old', 'New', 'Bump'];
+
+  if (packages) {
+    header.push('Tag');
+  }
+
+  const widths = header.map((title, index) =>
+    Math.max(title.length, ...rows.map((row) => row[index].length))
+  );
+
+  return [header, ...rows]
+    .map((row) =>
+      row
+        .map((cell, index) => cell.padEnd(widths[index]))
+        .join('  ')
+        .trimEnd()
+    )
+    .join('\n');
+}
+
+/**
+ * Render the breaking change notes of each detected bump as plain text
+ * @param breakingChanges - Breaking changes read from changelogs
+ * @returns One block per path with breaking change notes
+ */
+function formatBreakingChanges(
+  breakingChanges: Record<string, BreakingChanges>
+): string {
+  return Object.entries(breakingChanges)
+    .filter(([, { notes }]) => notes && notes.length > 0)
+    .map(([path, { version, notes }]) =>
+      [
+        `⚠ Breaking changes in ${path} ${version}:`,
+        ...(notes ?? []).map((note) => `  - ${note}`)
+      ].join('\n')
+    )
+    .join('\n\n');
+}
+
+/**
+ * Run the command line interface
+ * @param argv - Command line arguments (without the node and script paths)
+ * @param options - Working directory and output writers
+ * @returns Process exit code
+ */
+export async function runCli(
+  argv: string[],
+  options: CliOptions = {}
+): Promise<number> {
+  const {
+    cwd = process.cwd(),
+    stdout = (text) => process.stdout.write(`${text}\n`),
+    stderr = (text) => process.stderr.write(`${text}\n`)
+  } = options;
+
+  try {
+    const { values } = parseArgs({
+      args: argv,
+      options: {
+        base: { type: 'string' },
+        head: { type: 'string', default: 'HEAD' },
+        'compare-to': { type: 'string', default: 'base' },
+        manifest: { type: 'string', default: '.release-please-manifest.json' },
+        config: { type: 'string' },
+        'breaking-semantics': { type: 'string', default: 'strict-major' },
+        'detect-level': { type: 'string', default: 'major' },
+        'prerelease-handling': { type: 'string', default: 'report' },
+        versioning: { type: 'string', multiple: true, default: [] },
+        'include-path': { type: 'string', multiple: true, default: [] },
+        'exclude-path': { type: 'string', multiple: true, default: [] },
+        validation: { type: 'string', default: 'strict' },
+        'fail-on-anomalies': { type: 'boolean', default: false },
+        format: { type: 'string', default: 'table' },
+        help: { type: 'boolean', short: 'h', default: false }
+      }
+    });
+
+    if (values.help) {
+      stdout(USAGE);
+      return EXIT_NO_MAJOR;
+    }
+
+    const compareTo = parseChoice(
+      'compare-to',
+      values['compare-to'],
+      COMPARISON_MODES
+    );
+
+    if (compareTo === 'base' && !values.base) {
+      throw new Error('Missing required option --base');
+    }
+
+    const format = parseChoice('format', values.format, FORMATS);
+    const validation = parseChoice(
+      'validation',
+      values.validation,
+      VALIDATION_MODES
+    );
+    const source = createGitSource(cwd);
+    const versioning = parseVersioningConfig(values.versioning);
+    const analysisOptions = {
+      breakingSemantics: parseChoice(
+        'breaking-semantics',
+        values['breaking-semantics'],
+        BREAKING_SEMANTICS
+      ),
+      detectLevel: parseChoice(
+        'detect-level',
+        values['detect-level'],
+        DETECT_LEVELS
+      ),
+      prerelease: parseChoice(
+        'prerelease-handling',
+        values['prerelease-handling'],
+        PRERELEASE_HANDLING
+      ),
+      versioning,
+      paths: {
+        include: values['include-path'],
+        exclude: values['exclude-path']
+      }
+    };
+    const config = values.config
+      ? await getConfigAtRef(source, values.config, values.head)
+      : null;
+
+    let detection: ManifestDetection;
+
+    if (compareTo === 'tags') {
+      const released = await detectChangesSinceRelease(
+        source,
+        values.manifest,
+        values.head,
+        await listTags(source),
+        config,
+        analysisOptions
+      );
+
+      for (const path of released.skippedPaths) {
+        stderr(
+          `Warning: Skipping ${path}, set its component or package-name in --config to compare it against its own release tags`
+        );
+      }
+
+      detection = released;
+    } else {
+      detection = await detectManifestChanges(
+        source,
+        values.manifest,
+        values.base as string,
+        values.head,
+        analysisOptions
+      );
+    }
+
+    const { analysis, problems } = detection;
+
+    if (problems.length > 0) {
+      if (validation === 'strict') {
+        throw new Error(`Invalid manifest:\n${formatProblems(problems)}`);
+      }
+
+      stderr(
+        `Warning: Skipping invalid manifest entries:\n${formatProblems(problems)}`
+      );
+    }
+
+    const packages = resolvePackages(config, analysis.changes);
+    const breakingChanges = await getBreakingChanges(
+      source,
+      analysis,
+      packages,
+      values.head
+    );
+
+    for (const [path, { version, changelogPath, notes }] of Object.entries(
+      breakingChanges
+    )) {
+      if (notes === null) {
+        stderr(
+          `Warning: No ${version} section found in ${changelogPath} for ${path}`
+        );
+      }
+    }
+
+    const anomalies = detectAnomalies(analysis, versioning);
+
+    for (const [path, anomaly] of Object.entries(anomalies)) {
+      stderr(`Warning: ${describeAnomaly(path, anomaly)}`);
+    }
+
+    if (format === 'json') {
+      stdout(
+        JSON.stringify(
+          { ...analysis, packages, breakingChanges, problems, anomalies },
+          null,
+          2
+        )
+      );
+    } else {
+      stdout(formatTable(analysis, values.config ? packages : null));
+
+      const breaking = formatBreakingChanges(breakingChanges);
+
+      if (breaking) {
+        stdout(`\n${breaking}`);
+      }
+
+      stdout(
+        analysis.hasMajorBump
+          ? '\n🚨 Major version bump(s) detected!'
+          : '\n✅ No major version bumps detected'
+      );
+    }
+
+    if (values['fail-on-anomalies'] && Object.keys(anomalies).length > 0) {
+      throw new Error(
+        `Manifest anomalies found in ${Object.keys(anomalies).join(', ')}`
+      );
+    }
+
+    return analysis.hasMajorBump ? EXIT_MAJOR : EXIT_NO_MAJOR;
+  } catch (error) {
+    stderr(
+      error instanceof Error
+        ? `Error: ${error.message}`
+        : 'Error: unknown error'
+    );
+    return EXIT_ERROR;
+  }
+}
@@ -1,5 +1,6 @@
 import type { GitHub } from '@actions/github/lib/utils';
 import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { respond, useTestServer } from './utils/test-server';
 
 const mocks = vi.hoisted(() => {
   return {
@@ -7,14 +8,25 @@ const mocks = vi.hoisted(() => {
     setOutput: vi.fn(),
     setFailed: vi.fn(),
     info: vi.fn(),
+    warning: vi.fn(),
+    error: vi.fn(),
+    summary: {
+      addRaw: vi.fn().mockReturnThis(),
+      write: vi.fn()
+    },
     getOctokit: vi.fn(),
+    createOctokit: vi.fn(),
+    createGitSource: vi.fn(),
     context: {
+      eventName: 'pull_request',
+      sha: 'head-sha-456',
+      serverUrl: 'https://github.com',
       payload: {
         pull_request: {
           base: { sha: 'base-sha-123' },
           head: { sha: 'head-sha-456' }
         }
-      },
+      } as Record<string, unknown>,
       repo: {
         owner: 'test-owner',
         repo: 'test-repo'
@@ -27,7 +39,10 @@ vi.mock('@actions/core', () => ({
   getInput: mocks.getInput,
   setOutput: mocks.setOutput,
   setFailed: mocks.setFailed,
-  info: mocks.info
+  info: mocks.info,
+  warning: mocks.warning,
+  error: mocks.error,
+  summary: mocks.summary
 }));
 
 vi.mock('@actions/github', async (importOriginal) => {
@@ -39,11 +54,29 @@ vi.mock('@actions/github', async (importOriginal) => {
   };
 });
 
+vi.mock('./utils/api', async (importOriginal) => {
+  const mod = await importOriginal<typeof import('./utils/api')>();
+  return {
+    ...mod,
+    createOctokit: mocks.createOctokit
+  };
+});
+
+vi.mock('./utils/files', async (importOriginal) => {
+  const mod = await importOriginal<typeof import('./utils/files')>();
+  return {
+    ...mod,
+    createGitSource: mocks.createGitSource
+  };
+});
+
 describe('main', () => {
   beforeEach(() => {
     vi.clearAllMocks();
 
     // Reset context to default
+    mocks.context.eventName = 'pull_request';
+    mocks.context.sha = 'head-sha-456';
     mocks.context.payload = {
       pull_request: {
         base: { sha: 'base-sha-123' },
@@ -52,6 +85,9 @@ describe('main', () => {
     };
 
     // Default mock implementations
+    mocks.createOctokit.mockImplementation((token: string) =>
+      mocks.getOctokit(token)
+    );
     mocks.getInput.mockImplementation((name: string) => {
       if (name === 'github_token') return 'test-token';
       if (name === 'manifest_file') return '';
@@ -65,6 +101,7 @@ describe('main', () => {
         repos: {
           getContent: vi
             .fn()
+            .mockRejectedValue({ status: 404 })
             .mockResolvedValueOnce({
               data: {
                 content: Buffer.from(
@@ -132,6 +169,25 @@ describe('main', () => {
         'packages/foo': ['3.5.0', '4.0.0']
       })
     );
+    expect(mocks.setOutput).toHaveBeenCalledWith('has_minor_bump', false);
+    expect(mocks.setOutput).toHaveBeenCalledWith('has_patch_bump', false);
+    expect(mocks.setOutput).toHaveBeenCalledWith(
+      'all_changes',
+      JSON.stringify({
+        '.': {
+          oldVersion: '1.2.3',
+          newVersion: '2.0.0',
+          bump: 'major',
+          prerelease: null
+        },
+        'packages/foo': {
+          oldVersion: '3.5.0',
+          newVersion: '4.0.0',
+          bump: 'major',
+          prerelease: null
+        }
+      })
+    );
   });
 
   it('should handle no major bumps', async () => {
@@ -173,6 +229,22 @@ describe('main', () => {
       'updated_paths',
       JSON.stringify({})
     );
+    expect(mocks.info).toHaveBeenCalledWith('🔹 .: 1.2.3 → 1.3.0 (minor)');
+    expect(mocks.setOutput).toHaveBeenCalledWith('has_minor_bump', true);
+    expect(mocks.summary.addRaw).toHaveBeenCalledWith(
+      expect.stringContaining('✅ No major version bumps detected')
+    );
+    expect(mocks.setOutput).toHaveBeenCalledWith(
+      'all_changes',
+      JSON.stringify({
+        '.': {
+          oldVersion: '1.2.3',
+          newVersion: '1.3.0',
+          bump: 'minor',
+          prerelease: null
+        }
+      })
+    );
   });
 
   it('should use custom manifest file path', async () => {
@@ -230,6 +302,203 @@ describe('main', () => {
     );
   });
 
+  it('should pass breaking semantics and detect level to the analysis', async () => {
+    mocks.getInput.mockImplementation((name: string) => {
+      if (name === 'github_token') return 'test-token';
+      if (name === 'breaking_semantics') return 'caret-compatible';
+      if (name === 'detect_level') return 'minor';
+      return '';
+    });
+
+    const mockOctokit = {
+      rest: {
+        repos: {
+          getContent: vi
+            .fn()
+            .mockRejectedValue({ status: 404 })
+            .mockResolvedValueOnce({
+              data: {
+                content: Buffer.from(
+                  JSON.stringify({ 'packages/foo': '0.4.2', '.': '1.2.3' })
+                ).toString('base64')
+              }
+            })
+            .mockResolvedValueOnce({
+              data: {
+                content: Buffer.from(
+                  JSON.stringify({ 'packages/foo': '0.5.0', '.': '1.3.0' })
+                ).toString('base64')
+              }
+            })
+        }
+      }
+    };
+
+    mocks.getOctokit.mockReturnValue(
+      mockOctokit as unknown as InstanceType<typeof GitHub>
+    );
+
+    const { run } = await import('./main');
+    await run();
+
+    expect(mocks.setOutput).toHaveBeenCalledWith('has_major_bump', true);
+    expect(mocks.setOutput).toHaveBeenCalledWith(
+      'updated_paths',
+      JSON.stringify({
+        'packages/foo': ['0.4.2', '0.5.0'],
+        '.': ['1.2.3', '1.3.0']
+      })
+    );
+  });
+
+  it('should flag major prereleases separately when configured', async () => {
+    mocks.getInput.mockImplementation((name: string) => {
+      if (name === 'github_token') return 'test-token';
+      if (name === 'prerelease_handling') return 'flag';
+      return '';
+    });
+
+    const mockOctokit = {
+      rest: {
+        repos: {
+          getContent: vi
+            .fn()
+            .mockResolvedValueOnce({
+              data: {
+                content: Buffer.from(JSON.stringify({ '.': '1.9.0' })).toString(
+                  'base64'
+                )
+              }
+            })
+            .mockResolvedValueOnce({
+              data: {
+                content: Buffer.from(
+                  JSON.stringify({ '.': '2.0.0-alpha.0' })
+                ).toString('base64')
+              }
+            })
+        }
+      }
+    };
+
+    mocks.getOctokit.mockReturnValue(
+      mockOctokit as unknown as InstanceType<typeof GitHub>
+    );
+
+    const { run } = await import('./main');
+    await run();
+
+    expect(mocks.info).toHaveBeenCalledWith(
+      '🧪 .: 1.9.0 → 2.0.0-alpha.0 (major prerelease)'
+    );
+    expect(mocks.setOutput).toHaveBeenCalledWith('has_major_bump', false);
+    expect(mocks.setOutput).toHaveBeenCalledWith('has_major_prerelease', true);
+    expect(mocks.setOutput).toHaveBeenCalledWith(
+      'major_prereleases',
+      JSON.stringify({ '.': ['1.9.0', '2.0.0-alpha.0'] })
+    );
+  });
+
+  it('should resolve package details from the release-please config', async () => {
+    mocks.getInput.mockImplementation((name: string) => {
+      if (name === 'github_token') return 'test-token';
+      if (name === 'config_file') return 'release-please-config.json';
+      return '';
+    });
+
+    const mockOctokit = {
+      rest: {
+        repos: {
+          getContent: vi
+            .fn()
+            .mockRejectedValue({ status: 404 })
+            .mockResolvedValueOnce({
+              data: {
+                content: Buffer.from(
+                  JSON.stringify({ 'packages/foo': '1.0.0' })
+                ).toString('base64')
+              }
+            })
+            .mockResolvedValueOnce({
+              data: {
+                content: Buffer.from(
+                  JSON.stringify({ 'packages/foo': '2.0.0' })
+                ).toString('base64')
+              }
+            })
+            .mockResolvedValueOnce({
+              data: {
+                content: Buffer.from(
+                  JSON.stringify({
+                    'release-type': 'node',
+                    packages: { 'packages/foo': { component: 'foo' } }
+                  })
+                ).toString('base64')
+              }
+            })
+        }
+      }
+    };
+
+    mocks.getOctokit.mockReturnValue(
+      mockOctokit as unknown as InstanceType<typeof GitHub>
+    );
+
+    const { run } = await import('./main');
+    await run();
+
+    expect(mockOctokit.rest.repos.getContent).toHaveBeenCalledWith({
+      owner: 'test-owner',
+      repo: 'test-repo',
+      path: 'release-please-config.json',
+      ref: 'head-sha-456'
+    });
+    expect(mocks.setOutput).toHaveBeenCalledWith(
+      'updated_packages',
+      JSON.stringify({
+        'packages/foo': {
+          oldVersion: '1.0.0',
+          newVersion: '2.0.0',
+          bump: 'major',
+          component: 'foo',
+          packageName: null,
+          tag: 'foo-v2.0.0',
+          releaseType: 'node',
+          changelogPath: 'packages/foo/CHANGELOG.md'
+        }
+      })
+    );
+    expect(mocks.setOutput).toHaveBeenCalledWith(
+      'bump_matrix',
+      JSON.stringify({
+        include: [
+          {
+            path: 'packages/foo',
+            component: 'foo',
+            old: '1.0.0',
+            new: '2.0.0',
+            bump: 'major'
+          }
+        ]
+      })
+    );
+  });
+
+  it('should fail on an invalid detect level', async () => {
+    mocks.getInput.mockImplementation((name: string) => {
+      if (name === 'github_token') return 'test-token';
+      if (name === 'detect_level') return 'huge';
+      return '';
+    });
+
+    const { run } = await import('./main');
+    await run();
+
+    expect(mocks.setFailed).toHaveBeenCalledWith(
+      'Action failed: Invalid detect_level "huge", expected one of: major, minor, patch'
+    );
+  });
+
   it('should handle errors and set failed status', async () => {
     const mockOctokit = {
       rest: {
@@ -274,15 +543,1678 @@ describe('main', () => {
     );
   });
 
-  it('should throw error when not run on pull_request event', async () => {
+  it('should use before and after refs on push events', async () => {
+    mocks.context.eventName = 'push';
+    mocks.context.payload = { before: 'before-sha', after: 'after-sha' };
+
+    const mockOctokit = {
+      rest: {
+        repos: {
+          getContent: vi.fn().mockResolvedValue({
+            data: {
+              content: Buffer.from(JSON.stringify({ '.': '1.0.0' })).toString(
+                'base64'
+              )
+            }
+          })
+        }
+      }
+    };
+
+    mocks.getOctokit.mockReturnValue(
+      mockOctokit as unknown as InstanceType<typeof GitHub>
+    );
+
+    const { run } = await import('./main');
+    await run();
+
+    expect(mocks.info).toHaveBeenCalledWith(
+      'Analyzing .release-please-manifest.json changes between before-sha and after-sha'
+    );
+    expect(mocks.setFailed).not.toHaveBeenCalled();
+  });
+
+  it('should prefer explicit base_ref and head_ref inputs', async () => {
+    mocks.context.eventName = 'workflow_dispatch';
+    mocks.context.payload = {};
+    mocks.getInput.mockImplementation((name: string) => {
+      if (name === 'github_token') return 'test-token';
+      if (name === 'base_ref') return 'v1.0.0';
+      if (name === 'head_ref') return 'main';
+      return '';
+    });
+
+    const mockOctokit = {
+      rest: {
+        repos: {
+          getContent: vi.fn().mockResolvedValue({
+            data: {
+              content: Buffer.from(JSON.stringify({ '.': '1.0.0' })).toString(
+                'base64'
+              )
+            }
+          })
+        }
+      }
+    };
+
+    mocks.getOctokit.mockReturnValue(
+      mockOctokit as unknown as InstanceType<typeof GitHub>
+    );
+
+    const { run } = await import('./main');
+    await run();
+
+    expect(mockOctokit.rest.repos.getContent).toHaveBeenCalledWith(
+      expect.objectContaining({ ref: 'v1.0.0' })
+    );
+    expect(mockOctokit.rest.repos.getContent).toHaveBeenCalledWith(
+      expect.objectContaining({ ref: 'main' })
+    );
+  });
+
+  it('should read manifests from the local repository in git mode', async () => {
+    mocks.getInput.mockImplementation((name: string) => {
+      if (name === 'source') return 'git';
+      return '';
+    });
+
+    const readFile = vi
+      .fn()
+      .mockResolvedValueOnce(JSON.stringify({ '.': '1.2.3' }))
+      .mockResolvedValueOnce(JSON.stringify({ '.': '2.0.0' }));
+    mocks.createGitSource.mockReturnValue({ readFile });
+
+    const { run } = await import('./main');
+    await run();
+
+    expect(mocks.getInput).toHaveBeenCalledWith('github_token', {
+      required: false
+    });
+    expect(mocks.getOctokit).not.toHaveBeenCalled();
+    expect(readFile).toHaveBeenCalledWith(
+      '.release-please-manifest.json',
+      'base-sha-123'
+    );
+    expect(readFile).toHaveBeenCalledWith(
+      '.release-please-manifest.json',
+      'head-sha-456'
+    );
+    expect(mocks.setOutput).toHaveBeenCalledWith('has_major_bump', true);
+  });
+
+  it('should compare against the latest release tags when compare_to is tags', async () => {
+    mocks.context.eventName = 'workflow_dispatch';
+    mocks.context.payload = {};
+    mocks.getInput.mockImplementation((name: string) => {
+      if (name === 'source') return 'git';
+      if (name === 'compare_to') return 'tags';
+      if (name === 'config_file') return 'release-please-config.json';
+      return '';
+    });
+
+    const files: Record<string, string> = {
+      '.release-please-manifest.json': JSON.stringify({
+        '.': '2.0.0',
+        'packages/foo': '1.3.0',
+        'packages/bar': '3.0.0'
+      }),
+      'release-please-config.json': JSON.stringify({
+        packages: {
+          '.': {},
+          'packages/foo': { component: 'foo' },
+          'packages/bar': {}
+        }
+      })
+    };
+    const readFile = vi.fn(async (path: string) => files[path] ?? null);
+    const listTags = vi
+      .fn()
+      .mockResolvedValue(['v1.0.0', 'v1.1.0', 'foo-v1.2.0', 'foo-v1.0.0']);
+    mocks.createGitSource.mockReturnValue({ readFile, listTags });
+
+    const { run } = await import('./main');
+    await run();
+
+    expect(
+      readFile.mock.calls.filter(
+        ([path]) => path === '.release-please-manifest.json'
+      )
+    ).toEqual([['.release-please-manifest.json', 'head-sha-456']]);
+    expect(listTags).toHaveBeenCalledTimes(1);
+    expect(mocks.info).toHaveBeenCalledWith(
+      'Analyzing .release-please-manifest.json changes since the last release tags, up to head-sha-456'
+    );
+    expect(mocks.setOutput).toHaveBeenCalledWith(
+      'updated_paths',
+      JSON.stringify({ '.': ['1.1.0', '2.0.0'] })
+    );
+    expect(mocks.setOutput).toHaveBeenCalledWith(
+      'release_tags',
+      JSON.stringify({ '.': 'v1.1.0', 'packages/foo': 'foo-v1.2.0' })
+    );
+    expect(mocks.warning).toHaveBeenCalledWith(
+      'Skipping packages/bar in .release-please-manifest.json, set its component or package-name in config_file to compare it against its own release tags'
+    );
+    expect(mocks.setFailed).not.toHaveBeenCalled();
+  });
+
+  it('should report bumps that do not match conventional commits', async () => {
+    mocks.getInput.mockImplementation((name: string) => {
+      if (name === 'source') return 'git';
+      if (name === 'verify_commits') return 'report';
+      return '';
+    });
+
+    const readFile = vi
+      .fn()
+      .mockResolvedValueOnce(
+        JSON.stringify({ '.': '1.2.3', 'packages/foo': '1.0.0' })
+      )
+      .mockResolvedValueOnce(
+        JSON.stringify({ '.': '2.0.0', 'packages/foo': '1.1.0' })
+      )
+      .mockResolvedValue(null);
+    const listCommitMessages = vi.fn(async (path: string) =>
+      path === '.' ? ['fix: a', 'chore: b'] : null
+    );
+    mocks.createGitSource.mockReturnValue({ readFile, listCommitMessages });
+
+    const { run } = await import('./main');
+    await run();
+
+    expect(listCommitMessages).toHaveBeenCalledWith(
+      '.',
+      'v1.2.3',
+      'head-sha-456'
+    );
+    expect(mocks.warning).toHaveBeenCalledWith(
+      '. has a major bump but commits since v1.2.3 suggest patch'
+    );
+    expect(mocks.warning).toHaveBeenCalledWith(
+      'Unable to verify packages/foo, release tag v1.0.0 was not found'
+    );
+    expect(mocks.setOutput).toHaveBeenCalledWith(
+      'bump_mismatches',
+      JSON.stringify({
+        '.': { tag: 'v1.2.3', actual: 'major', expected: 'patch', commits: 2 }
+      })
+    );
+    expect(mocks.setFailed).not.toHaveBeenCalled();
+  });
+
+  it('should fail on mismatched bumps when verify_commits is fail', async () => {
+    mocks.getInput.mockImplementation((name: string) => {
+      if (name === 'source') return 'git';
+      if (name === 'verify_commits') return 'fail';
+      return '';
+    });
+
+    const readFile = vi
+      .fn()
+      .mockResolvedValueOnce(JSON.stringify({ '.': '1.2.3' }))
+      .mockResolvedValueOnce(JSON.stringify({ '.': '1.3.0' }))
+      .mockResolvedValue(null);
+    const listCommitMessages = vi.fn().mockResolvedValue(['feat!: drop x']);
+    mocks.createGitSource.mockReturnValue({ readFile, listCommitMessages });
+
+    const { run } = await import('./main');
+    await run();
+
+    expect(mocks.setOutput).toHaveBeenCalledWith('has_major_bump', false);
+    expect(mocks.setFailed).toHaveBeenCalledWith(
+      "Action failed: ⛔️ Version bumps don't match conventional commits for ."
+    );
+  });
+
+  it('should output workspace dependents of major bumps', async () => {
+    mocks.getInput.mockImplementation((name: string) => {
+      if (name === 'source') return 'git';
+      if (name === 'find_dependents') return 'true';
+      return '';
+    });
+
+    const files: Record<string, string> = {
+      'packages/core/package.json': JSON.stringify({ name: '@acme/core' }),
+      'packages/app/package.json': JSON.stringify({
+        name: '@acme/app',
+        dependencies: { '@acme/core': '^1.0.0' }
+      })
+    };
+    const readFile = vi.fn(async (filePath: string, ref: string) => {
+      if (filePath === '.release-please-manifest.json') {
+        return JSON.stringify({
+          'packages/core': ref === 'base-sha-123' ? '1.2.3' : '2.0.0',
+          'packages/app': '1.0.0'
+        });
+      }
+
+      return files[filePath] ?? null;
+    });
+    mocks.createGitSource.mockReturnValue({ readFile });
+
+    const { run } = await import('./main');
+    await run();
+
+    expect(mocks.info).toHaveBeenCalledWith(
+      '🔗 packages/app depends on packages/core (^1.0.0, does not admit 2.0.0)'
+    );
+    expect(mocks.setOutput).toHaveBeenCalledWith(
+      'dependents',
+      JSON.stringify({
+        'packages/core': [
+          {
+            path: 'packages/app',
+            name: '@acme/app',
+            direct: true,
+            range: '^1.0.0',
+            satisfied: false
+          }
+        ]
+      })
+    );
+  });
+
+  it('should merge several manifests into outputs keyed by manifest and path', async () => {
+    mocks.getInput.mockImplementation((name: string) => {
+      if (name === 'source') return 'git';
+      if (name === 'manifest_file') return '*/.release-please-manifest.json';
+      return '';
+    });
+
+    const manifests: Record<string, Record<string, string>> = {
+      'apps/.release-please-manifest.json': { web: '1.0.0' },
+      'libs/.release-please-manifest.json': { web: '3.0.0' }
+    };
+    const readFile = vi.fn(async (filePath: string, ref: string) => {
+      const manifest = manifests[filePath];
+
+      if (!manifest) {
+        return null;
+      }
+
+      return ref === 'base-sha-123'
+        ? JSON.stringify(manifest)
+        : JSON.stringify({
+            web: filePath.startsWith('apps') ? '2.0.0' : '3.1.0'
+          });
+    });
+    const listFiles = vi.fn().mockResolvedValue(Object.keys(manifests));
+    mocks.createGitSource.mockReturnValue({ readFile, listFiles });
+
+    const { run } = await import('./main');
+    await run();
+
+    expect(listFiles).toHaveBeenCalledWith('head-sha-456');
+    expect(mocks.info).toHaveBeenCalledWith(
+      'Analyzing libs/.release-please-manifest.json changes between base-sha-123 and head-sha-456'
+    );
+    expect(mocks.setOutput).toHaveBeenCalledWith('has_major_bump', true);
+    expect(mocks.setOutput).toHaveBeenCalledWith('has_minor_bump', true);
+    expect(mocks.setOutput).toHaveBeenCalledWith(
+      'updated_paths',
+      JSON.stringify({
+        'apps/.release-please-manifest.json:web': ['1.0.0', '2.0.0']
+      })
+    );
+    expect(mocks.info).toHaveBeenCalledWith(
+      '🔹 libs/.release-please-manifest.json:web: 3.0.0 → 3.1.0 (minor)'
+    );
+    expect(mocks.setOutput).toHaveBeenCalledWith(
+      'bump_matrix',
+      JSON.stringify({
+        include: [
+          {
+            manifest: 'apps/.release-please-manifest.json',
+            path: 'web',
+            component: null,
+            old: '1.0.0',
+            new: '2.0.0',
+            bump: 'major'
+          }
+        ]
+      })
+    );
+  });
+
+  it('should keep commas inside brace globs in list inputs', async () => {
+    mocks.getInput.mockImplementation((name: string) => {
+      if (name === 'source') return 'git';
+      if (name === 'manifest_file')
+        return '{apps,libs}/.release-please-manifest.json, tools/manifest.json';
+      return '';
+    });
+
+    const readFile = vi.fn(async (_path: string, _ref: string) =>
+      JSON.stringify({ web: '1.0.0' })
+    );
+    const listFiles = vi
+      .fn()
+      .mockResolvedValue([
+        'apps/.release-please-manifest.json',
+        'libs/.release-please-manifest.json',
+        'other/.release-please-manifest.json',
+        'tools/manifest.json'
+      ]);
+    mocks.createGitSource.mockReturnValue({ readFile, listFiles });
+
+    const { run } = await import('./main');
+    await run();
+
+    expect(
+      readFile.mock.calls
+        .filter(([, ref]) => ref === 'head-sha-456')
+        .map(([path]) => path)
+    ).toEqual([
+      'apps/.release-please-manifest.json',
+      'libs/.release-please-manifest.json',
+      'tools/manifest.json'
+    ]);
+    expect(mocks.setFailed).not.toHaveBeenCalled();
+  });
+
+  it('should read versioning entries with brace globs', async () => {
+    mocks.getInput.mockImplementation((name: string) => {
+      if (name === 'source') return 'git';
+      if (name === 'versioning')
+        return 'services/{api,web}: calver YYYY.MM.MICRO\ntools/*: four-part';
+      return '';
+    });
+
+    const readFile = vi.fn(async (_path: string, ref: string) =>
+      JSON.stringify(
+        ref === 'base-sha-123'
+          ? { 'services/api': '2024.6.1', 'services/web': '2024.6.1' }
+          : { 'services/api': '2025.1.0', 'services/web': '2024.6.2' }
+      )
+    );
+    mocks.createGitSource.mockReturnValue({ readFile });
+
+    const { run } = await import('./main');
+    await run();
+
+    expect(mocks.setOutput).toHaveBeenCalledWith('manifest_problems', '[]');
+    expect(mocks.setOutput).toHaveBeenCalledWith('has_major_bump', false);
+    expect(mocks.setOutput).toHaveBeenCalledWith('has_minor_bump', true);
+    expect(mocks.setFailed).not.toHaveBeenCalled();
+  });
+
+  it('should read the config next to each manifest', async () => {
+    mocks.getInput.mockImplementation((name: string) => {
+      if (name === 'source') return 'git';
+      if (name === 'manifest_file') return '*/.release-please-manifest.json';
+      if (name === 'config_file') return 'release-please-config.json';
+      return '';
+    });
+
+    const files: Record<string, string> = {
+      'apps/release-please-config.json': JSON.stringify({
+        packages: { web: { component: 'web-app' } }
+      }),
+      'libs/release-please-config.json': JSON.stringify({
+        packages: { web: { component: 'web-lib' } }
+      })
+    };
+    const readFile = vi.fn(async (filePath: string, ref: string) => {
+      if (filePath in files) {
+        return files[filePath];
+      }
+
+      if (!filePath.endsWith('.release-please-manifest.json')) {
+        return null;
+      }
+
+      return JSON.stringify({
+        web: ref === 'base-sha-123' ? '1.0.0' : '2.0.0'
+      });
+    });
+    const listFiles = vi
+      .fn()
+      .mockResolvedValue([
+        'apps/.release-please-manifest.json',
+        'libs/.release-please-manifest.json'
+      ]);
+    mocks.createGitSource.mockReturnValue({ readFile, listFiles });
+
+    const { run } = await import('./main');
+    await run();
+
+    const [, matrix] = mocks.setOutput.mock.calls.find(
+      ([name]) => name === 'bump_matrix'
+    ) as [string, string];
+
+    expect(
+      JSON.parse(matrix).include.map(
+        ({ component }: { component: string }) => component
+      )
+    ).toEqual(['web-app', 'web-lib']);
+    expect(mocks.setFailed).not.toHaveBeenCalled();
+  });
+
+  it('should fail when one config path is given for several manifests', async () => {
+    mocks.getInput.mockImplementation((name: string) => {
+      if (name === 'source') return 'git';
+      if (name === 'manifest_file') return '*/.release-please-manifest.json';
+      if (name === 'config_file') return 'config/release-please-config.json';
+      return '';
+    });
+    mocks.createGitSource.mockReturnValue({
+      readFile: vi.fn().mockResolvedValue(null),
+      listFiles: vi
+        .fn()
+        .mockResolvedValue([
+          'apps/.release-please-manifest.json',
+          'libs/.release-please-manifest.json'
+        ])
+    });
+
+    const { run } = await import('./main');
+    await run();
+
+    expect(mocks.setFailed).toHaveBeenCalledWith(
+      'Action failed: ⛔️ config_file must list one config per manifest_file entry, or a single file name to read next to each manifest'
+    );
+  });
+
+  it('should filter the bump matrix by matrix_level', async () => {
+    mocks.getInput.mockImplementation((name: string) => {
+      if (name === 'github_token') return 'test-token';
+      if (name === 'matrix_level') return 'minor';
+      return '';
+    });
+
+    const mockOctokit = {
+      rest: {
+        repos: {
+          getContent: vi
+            .fn()
+            .mockRejectedValue({ status: 404 })
+            .mockResolvedValueOnce({
+              data: {
+                content: Buffer.from(
+                  JSON.stringify({ a: '1.0.0', b: '1.0.0', c: '1.0.0' })
+                ).toString('base64')
+              }
+            })
+            .mockResolvedValueOnce({
+              data: {
+                content: Buffer.from(
+                  JSON.stringify({ a: '2.0.0', b: '1.1.0', c: '1.0.1' })
+                ).toString('base64')
+              }
+            })
+        }
+      }
+    };
+
+    mocks.getOctokit.mockReturnValue(
+      mockOctokit as unknown as InstanceType<typeof GitHub>
+    );
+
+    const { run } = await import('./main');
+    await run();
+
+    const [, matrix] = mocks.setOutput.mock.calls.find(
+      ([name]) => name === 'bump_matrix'
+    ) as [string, string];
+
+    expect(
+      JSON.parse(matrix).include.map(({ path }: { path: string }) => path)
+    ).toEqual(['a', 'b']);
+  });
+
+  it('should report whether the pull request is a release PR', async () => {
+    mocks.context.payload = {
+      pull_request: {
+        number: 7,
+        title: 'chore(main): release 2.0.0',
+        base: { sha: 'base-sha-123' },
+        head: { sha: 'head-sha-456', ref: 'release-please--branches--main' },
+        labels: []
+      }
+    };
+
+    const mockOctokit = {
+      rest: {
+        repos: {
+          getContent: vi
+            .fn()
+            .mockRejectedValue({ status: 404 })
+            .mockResolvedValueOnce({
+              data: {
+                content: Buffer.from(JSON.stringify({ '.': '1.2.3' })).toString(
+                  'base64'
+                )
+              }
+            })
+            .mockResolvedValueOnce({
+              data: {
+                content: Buffer.from(JSON.stringify({ '.': '2.0.0' })).toString(
+                  'base64'
+                )
+              }
+            })
+        }
+      }
+    };
+
+    mocks.getOctokit.mockReturnValue(
+      mockOctokit as unknown as InstanceType<typeof GitHub>
+    );
+
+    const { run } = await import('./main');
+    await run();
+
+    expect(mocks.setOutput).toHaveBeenCalledWith('is_release_pr', true);
+    expect(mocks.setOutput).toHaveBeenCalledWith('release_pr_number', 7);
+    expect(mocks.setOutput).toHaveBeenCalledWith('skipped', false);
+    expect(mocks.setOutput).toHaveBeenCalledWith('has_major_bump', true);
+  });
+
+  describe('post-merge mode', () => {
+    const pushEvent = (message: string) => {
+      mocks.context.eventName = 'push';
+      mocks.context.payload = {
+        ref: 'refs/heads/main',
+        before: 'before-sha',
+        after: 'after-sha',
+        repository: { default_branch: 'main' },
+        head_commit: { message }
+      };
+    };
+
+    const createMockOctokit = (associated: unknown[]) => ({
+      rest: {
+        repos: {
+          listPullRequestsAssociatedWithCommit: vi
+            .fn()
+            .mockResolvedValue({ data: associated }),
+          getContent: vi
+            .fn()
+            .mockRejectedValue({ status: 404 })
+            .mockResolvedValueOnce({
+              data: {
+                content: Buffer.from(JSON.stringify({ '.': '1.2.3' })).toString(
+                  'base64'
+                )
+              }
+            })
+            .mockResolvedValueOnce({
+              data: {
+                content: Buffer.from(JSON.stringify({ '.': '2.0.0' })).toString(
+                  'base64'
+                )
+              }
+            })
+        }
+      }
+    });
+
+    beforeEach(() => {
+      mocks.getInput.mockImplementation((name: string) => {
+        if (name === 'github_token') return 'test-token';
+        if (name === 'post_merge') return 'true';
+        return '';
+      });
+    });
+
+    it('should output the merged release PR and its major bumps', async () => {
+      pushEvent('Merge pull request #12 from test-owner/feature');
+      const mockOctokit = createMockOctokit([
+        {
+          number: 12,
+          title: 'chore(main): release 2.0.0',
+          head: { ref: 'release-please--branches--main' },
+          labels: [],
+          merged_at: '2024-01-01T00:00:00Z'
+        }
+      ]);
+      mocks.getOctokit.mockReturnValue(
+        mockOctokit as unknown as InstanceType<typeof GitHub>
+      );
+
+      const { run } = await import('./main');
+      await run();
+
+      expect(
+        mockOctokit.rest.repos.listPullRequestsAssociatedWithCommit
+      ).toHaveBeenCalledWith(
+        expect.objectContaining({ commit_sha: 'after-sha' })
+      );
+      expect(mocks.info).toHaveBeenCalledWith(
+        '🚢 after-sha came from merged release-please pull request #12'
+      );
+      expect(mocks.setOutput).toHaveBeenCalledWith('is_release_pr', true);
+      expect(mocks.setOutput).toHaveBeenCalledWith('release_pr_number', 12);
+      expect(mocks.setOutput).toHaveBeenCalledWith(
+        'updated_paths',
+        JSON.stringify({ '.': ['1.2.3', '2.0.0'] })
+      );
+    });
+
+    it('should fall back to the squash commit message', async () => {
+      pushEvent('chore(main): release 2.0.0 (#13)');
+      mocks.getOctokit.mockReturnValue(
+        createMockOctokit([]) as unknown as InstanceType<typeof GitHub>
+      );
+
+      const { run } = await import('./main');
+      await run();
+
+      expect(mocks.setOutput).toHaveBeenCalledWith('release_pr_number', 13);
+      expect(mocks.setOutput).toHaveBeenCalledWith('has_major_bump', true);
+    });
+
+    it('should skip pushes that did not come from a release PR', async () => {
+      pushEvent('feat: add a thing (#14)');
+      const mockOctokit = createMockOctokit([]);
+      mocks.getOctokit.mockReturnValue(
+        mockOctokit as unknown as InstanceType<typeof GitHub>
+      );
+
+      const { run } = await import('./main');
+      await run();
+
+      expect(mockOctokit.rest.repos.getContent).not.toHaveBeenCalled();
+      expect(mocks.info).toHaveBeenCalledWith(
+        '⏭️ Skipping, after-sha did not come from a merged release-please pull request'
+      );
+      expect(mocks.setOutput).toHaveBeenCalledWith('is_release_pr', false);
+      expect(mocks.setOutput).toHaveBeenCalledWith('skipped', true);
+      expect(mocks.setOutput).not.toHaveBeenCalledWith(
+        'release_pr_number',
+        expect.anything()
+      );
+    });
+
+    it('should analyze pushes to other branches as usual', async () => {
+      pushEvent('feat: add a thing');
+      mocks.context.payload.ref = 'refs/heads/feature';
+      const mockOctokit = createMockOctokit([]);
+      mocks.getOctokit.mockReturnValue(
+        mockOctokit as unknown as InstanceType<typeof GitHub>
+      );
+
+      const { run } = await import('./main');
+      await run();
+
+      expect(
+        mockOctokit.rest.repos.listPullRequestsAssociatedWithCommit
+      ).not.toHaveBeenCalled();
+      expect(mocks.setOutput).toHaveBeenCalledWith('is_release_pr', false);
+      expect(mocks.setOutput).toHaveBeenCalledWith('has_major_bump', true);
+    });
+  });
+
+  it('should skip non-release pull requests without API calls', async () => {
+    mocks.getInput.mockImplementation((name: string) => {
+      if (name === 'github_token') return 'test-token';
+      if (name === 'skip_non_release_prs') return 'true';
+      if (name === 'comment') return 'true';
+      return '';
+    });
+    mocks.context.payload = {
+      pull_request: {
+        number: 8,
+        title: 'feat: add a thing',
+        base: { sha: 'base-sha-123' },
+        head: { sha: 'head-sha-456', ref: 'feature/thing' },
+        labels: [{ name: 'enhancement' }]
+      }
+    };
+
+    const mockOctokit = {
+      paginate: vi.fn(),
+      rest: {
+        repos: {
+          getContent: vi.fn()
+        }
+      }
+    };
+
+    mocks.getOctokit.mockReturnValue(
+      mockOctokit as unknown as InstanceType<typeof GitHub>
+    );
+
+    const { run } = await import('./main');
+    await run();
+
+    expect(mockOctokit.rest.repos.getContent).not.toHaveBeenCalled();
+    expect(mockOctokit.paginate).not.toHaveBeenCalled();
+    expect(mocks.info).toHaveBeenCalledWith(
+      '⏭️ Skipping, #8 is not a release-please pull request'
+    );
+    expect(mocks.setOutput).toHaveBeenCalledWith('is_release_pr', false);
+    expect(mocks.setOutput).toHaveBeenCalledWith('skipped', true);
+    expect(mocks.setOutput).not.toHaveBeenCalledWith(
+      'has_major_bump',
+      expect.anything()
+    );
+    expect(mocks.summary.write).not.toHaveBeenCalled();
+  });
+
+  it('should create a PR comment when comment is enabled', async () => {
+    mocks.getInput.mockImplementation((name: string) => {
+      if (name === 'github_token') return 'test-token';
+      if (name === 'comment') return 'true';
+      return '';
+    });
+    (mocks.context.payload.pull_request as Record<string, unknown>).number = 12;
+
+    const mockOctokit = {
+      paginate: vi.fn().mockResolvedValue([]),
+      rest: {
+        repos: {
+          getContent: vi
+            .fn()
+            .mockRejectedValue({ status: 404 })
+            .mockResolvedValueOnce({
+              data: {
+                content: Buffer.from(JSON.stringify({ '.': '1.2.3' })).toString(
+                  'base64'
+                )
+              }
+            })
+            .mockResolvedValueOnce({
+              data: {
+                content: Buffer.from(JSON.stringify({ '.': '2.0.0' })).toString(
+                  'base64'
+                )
+              }
+            })
+        },
+        issues: {
+          listComments: vi.fn(),
+          createComment: vi.fn().mockResolvedValue({})
+        }
+      }
+    };
+
+    mocks.getOctokit.mockReturnValue(
+      mockOctokit as unknown as InstanceType<typeof GitHub>
+    );
+
+    const { run } = await import('./main');
+    await run();
+
+    expect(mockOctokit.rest.issues.createComment).toHaveBeenCalledWith(
+      expect.objectContaining({
+        issue_number: 12,
+        body: expect.stringContaining('🚨 **major**')
+      })
+    );
+    expect(mocks.info).toHaveBeenCalledWith('💬 PR comment created');
+  });
+
+  it('should sync PR labels when label inputs are set', async () => {
+    mocks.getInput.mockImplementation((name: string) => {
+      if (name === 'github_token') return 'test-token';
+      if (name === 'major_label') return 'major release';
+      return '';
+    });
+    (mocks.context.payload.pull_request as Record<string, unknown>).number = 12;
+
+    const mockOctokit = {
+      paginate: vi.fn().mockResolvedValue([{ name: 'major release' }]),
+      rest: {
+        repos: {
+          getContent: vi
+            .fn()
+            .mockResolvedValueOnce({
+              data: {
+                content: Buffer.from(JSON.stringify({ '.': '1.2.3' })).toString(
+                  'base64'
+                )
+              }
+            })
+            .mockResolvedValueOnce({
+              data: {
+                content: Buffer.from(JSON.stringify({ '.': '1.3.0' })).toString(
+                  'base64'
+                )
+              }
+            })
+        },
+        issues: {
+          listLabelsOnIssue: vi.fn(),
+          addLabels: vi.fn(),
+          removeLabel: vi.fn().mockResolvedValue({})
+        }
+      }
+    };
+
+    mocks.getOctokit.mockReturnValue(
+      mockOctokit as unknown as InstanceType<typeof GitHub>
+    );
+
+    const { run } = await import('./main');
+    await run();
+
+    expect(mockOctokit.rest.issues.removeLabel).toHaveBeenCalledWith({
+      owner: 'test-owner',
+      repo: 'test-repo',
+      issue_number: 12,
+      name: 'major release'
+    });
+    expect(mocks.info).toHaveBeenCalledWith('🏷️ Removed label major release');
+  });
+
+  it('should create a gate check run when gate_check_name is set', async () => {
+    mocks.getInput.mockImplementation((name: string) => {
+      if (name === 'github_token') return 'test-token';
+      if (name === 'gate_check_name') return 'Major release approval';
+      if (name === 'gate_approval_label') return 'breaking-change-approved';
+      if (name === 'gate_approvers') return '@alice, my-org/approvers';
+      return '';
+    });
+    (mocks.context.payload.pull_request as Record<string, unknown>).number = 12;
+
+    const mockOctokit = {
+      paginate: vi.fn().mockResolvedValue([]),
+      rest: {
+        repos: {
+          getContent: vi
+            .fn()
+            .mockRejectedValue({ status: 404 })
+            .mockResolvedValueOnce({
+              data: {
+                content: Buffer.from(JSON.stringify({ '.': '1.2.3' })).toString(
+                  'base64'
+                )
+              }
+            })
+            .mockResolvedValueOnce({
+              data: {
+                content: Buffer.from(JSON.stringify({ '.': '2.0.0' })).toString(
+                  'base64'
+                )
+              }
+            })
+        },
+        issues: { listLabelsOnIssue: vi.fn() },
+        pulls: { listReviews: vi.fn() },
+        checks: { create: vi.fn().mockResolvedValue({}) }
+      }
+    };
+
+    mocks.getOctokit.mockReturnValue(
+      mockOctokit as unknown as InstanceType<typeof GitHub>
+    );
+
+    const { run } = await import('./main');
+    await run();
+
+    expect(mockOctokit.rest.checks.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        name: 'Major release approval',
+        head_sha: 'head-sha-456',
+        conclusion: 'failure',
+        output: expect.objectContaining({
+          summary: expect.stringContaining(
+            'get an approving review from @alice, @my-org/approvers'
+          )
+        })
+      })
+    );
+    expect(mocks.setOutput).toHaveBeenCalledWith('gate_conclusion', 'failure');
+    expect(mocks.setFailed).not.toHaveBeenCalled();
+  });
+
+  it('should read breaking changes from changelogs for major bumps', async () => {
+    const changelog = [
+      '# Changelog',
+      '',
+      '## [4.0.0](https://github.com/test-owner/test-repo/compare/foo-v3.5.0...foo-v4.0.0) (2024-01-01)',
+      '',
+      '### ⚠ BREAKING CHANGES',
+      '',
+      '* **foo:** drop support for Node 16',
+      '',
+      '### Features',
+      '',
+      '* **foo:** add bar',
+      '',
+      '## [3.5.0](https://github.com/test-owner/test-repo/compare/foo-v3.4.0...foo-v3.5.0) (2023-12-01)'
+    ].join('\n');
+
+    const mockOctokit = {
+      rest: {
+        repos: {
+          getContent: vi
+            .fn()
+            .mockRejectedValue({ status: 404 })
+            .mockResolvedValueOnce({
+              data: {
+                content: Buffer.from(
+                  JSON.stringify({ '.': '1.2.3', 'packages/foo': '3.5.0' })
+                ).toString('base64')
+              }
+            })
+            .mockResolvedValueOnce({
+              data: {
+                content: Buffer.from(
+                  JSON.stringify({ '.': '2.0.0', 'packages/foo': '4.0.0' })
+                ).toString('base64')
+              }
+            })
+            .mockResolvedValueOnce({
+              data: {
+                content: Buffer.from('# Changelog\n').toString('base64')
+              }
+            })
+            .mockResolvedValueOnce({
+              data: { content: Buffer.from(changelog).toString('base64') }
+            })
+        }
+      }
+    };
+
+    mocks.getOctokit.mockReturnValue(
+      mockOctokit as unknown as InstanceType<typeof GitHub>
+    );
+
+    const { run } = await import('./main');
+    await run();
+
+    expect(mockOctokit.rest.repos.getContent).toHaveBeenCalledWith({
+      owner: 'test-owner',
+      repo: 'test-repo',
+      path: 'packages/foo/CHANGELOG.md',
+      ref: 'head-sha-456'
+    });
+    expect(mocks.warning).toHaveBeenCalledWith(
+      'No 2.0.0 section found in CHANGELOG.md for .'
+    );
+    expect(mocks.setOutput).toHaveBeenCalledWith(
+      'breaking_changes',
+      JSON.stringify({
+        '.': { version: '2.0.0', changelogPath: 'CHANGELOG.md', notes: null },
+        'packages/foo': {
+          version: '4.0.0',
+          changelogPath: 'packages/foo/CHANGELOG.md',
+          notes: ['**foo:** drop support for Node 16']
+        }
+      })
+    );
+    expect(mocks.summary.addRaw).toHaveBeenCalledWith(
+      expect.stringContaining('- **foo:** drop support for Node 16')
+    );
+  });
+
+  it('should write a job summary with changelog links', async () => {
+    const mockOctokit = {
+      rest: {
+        repos: {
+          getContent: vi
+            .fn()
+            .mockRejectedValue({ status: 404 })
+            .mockResolvedValueOnce({
+              data: {
+                content: Buffer.from(
+                  JSON.stringify({ 'packages/foo': '1.2.3' })
+                ).toString('base64')
+              }
+            })
+            .mockResolvedValueOnce({
+              data: {
+                content: Buffer.from(
+                  JSON.stringify({ 'packages/foo': '2.0.0' })
+                ).toString('base64')
+              }
+            })
+        }
+      }
+    };
+
+    mocks.getOctokit.mockReturnValue(
+      mockOctokit as unknown as InstanceType<typeof GitHub>
+    );
+
+    const { run } = await import('./main');
+    await run();
+
+    const summary = mocks.summary.addRaw.mock.calls[0][0];
+
+    expect(summary).toContain('**🚨 Major version bumps detected**');
+    expect(summary).toContain(
+      '[packages/foo/CHANGELOG.md](https://github.com/test-owner/test-repo/blob/head-sha-456/packages/foo/CHANGELOG.md)'
+    );
+    expect(mocks.summary.write).toHaveBeenCalled();
+  });
+
+  it('should warn when the job summary cannot be written', async () => {
+    mocks.summary.write.mockRejectedValueOnce(
+      new Error(
+        'Unable to find environment variable for $GITHUB_STEP_SUMMARY. Check if your runtime environment supports job summaries.'
+      )
+    );
+
+    const mockOctokit = {
+      rest: {
+        repos: {
+          getContent: vi
+            .fn()
+            .mockRejectedValue({ status: 404 })
+            .mockResolvedValueOnce({
+              data: {
+                content: Buffer.from(JSON.stringify({ '.': '1.2.3' })).toString(
+                  'base64'
+                )
+              }
+            })
+            .mockResolvedValueOnce({
+              data: {
+                content: Buffer.from(JSON.stringify({ '.': '2.0.0' })).toString(
+                  'base64'
+                )
+              }
+            })
+        }
+      }
+    };
+
+    mocks.getOctokit.mockReturnValue(
+      mockOctokit as unknown as InstanceType<typeof GitHub>
+    );
+
+    const { run } = await import('./main');
+    await run();
+
+    expect(mocks.warning).toHaveBeenCalledWith(
+      'Skipping job summary, it could not be written: Unable to find environment variable for $GITHUB_STEP_SUMMARY. Check if your runtime environment supports job summaries.'
+    );
+    expect(mocks.setFailed).not.toHaveBeenCalled();
+    expect(mocks.setOutput).toHaveBeenCalledWith('has_major_bump', true);
+  });
+
+  it('should not write a job summary when job_summary is false', async () => {
+    mocks.getInput.mockImplementation((name: string) => {
+      if (name === 'github_token') return 'test-token';
+      if (name === 'job_summary') return 'false';
+      return '';
+    });
+
+    const mockOctokit = {
+      rest: {
+        repos: {
+          getContent: vi
+            .fn()
+            .mockRejectedValue({ status: 404 })
+            .mockResolvedValueOnce({
+              data: {
+                content: Buffer.from(JSON.stringify({ '.': '1.2.3' })).toString(
+                  'base64'
+                )
+              }
+            })
+            .mockResolvedValueOnce({
+              data: {
+                content: Buffer.from(JSON.stringify({ '.': '2.0.0' })).toString(
+                  'base64'
+                )
+              }
+            })
+        }
+      }
+    };
+
+    mocks.getOctokit.mockReturnValue(
+      mockOctokit as unknown as InstanceType<typeof GitHub>
+    );
+
+    const { run } = await import('./main');
+    await run();
+
+    expect(mocks.summary.addRaw).not.toHaveBeenCalled();
+    expect(mocks.summary.write).not.toHaveBeenCalled();
+  });
+
+  it('should skip the PR comment outside pull requests', async () => {
+    mocks.context.eventName = 'push';
+    mocks.context.payload = { before: 'before-sha', after: 'after-sha' };
+    mocks.getInput.mockImplementation((name: string) => {
+      if (name === 'github_token') return 'test-token';
+      if (name === 'comment') return 'true';
+      return '';
+    });
+
+    const mockOctokit = {
+      rest: {
+        repos: {
+          getContent: vi.fn().mockResolvedValue({
+            data: {
+              content: Buffer.from(JSON.stringify({ '.': '1.0.0' })).toString(
+                'base64'
+              )
+            }
+          })
+        }
+      }
+    };
+
+    mocks.getOctokit.mockReturnValue(
+      mockOctokit as unknown as InstanceType<typeof GitHub>
+    );
+
+    const { run } = await import('./main');
+    await run();
+
+    expect(mocks.warning).toHaveBeenCalledWith(
+      'Skipping PR comment, no pull request found for this event'
+    );
+    expect(mocks.setFailed).not.toHaveBeenCalled();
+  });
+
+  it('should pass the API URL and retries to the API client', async () => {
+    mocks.getInput.mockImplementation((name: string) => {
+      if (name === 'github_token') return 'test-token';
+      if (name === 'api_url') return 'https://github.example.com/api/v3';
+      if (name === 'api_retries') return '5';
+      return '';
+    });
+    mocks.getOctokit.mockReturnValue({
+      rest: {
+        repos: {
+          getContent: vi.fn().mockResolvedValue({
+            data: {
+              content: Buffer.from(JSON.stringify({ '.': '1.0.0' })).toString(
+                'base64'
+              )
+            }
+          })
+        }
+      }
+    } as unknown as InstanceType<typeof GitHub>);
+
+    const { run } = await import('./main');
+    await run();
+
+    expect(mocks.createOctokit).toHaveBeenCalledWith('test-token', {
+      baseUrl: 'https://github.example.com/api/v3',
+      retries: 5,
+      onRetry: expect.any(Function)
+    });
+
+    const [, { onRetry }] = mocks.createOctokit.mock.calls[0];
+    onRetry(new Error('Bad Gateway'), 2000, 1);
+
+    expect(mocks.info).toHaveBeenCalledWith(
+      '🔁 Retrying GitHub API request in 2s (attempt 1): Bad Gateway'
+    );
+  });
+
+  it('should fail on an invalid api_retries input', async () => {
+    mocks.getInput.mockImplementation((name: string) => {
+      if (name === 'github_token') return 'test-token';
+      if (name === 'api_retries') return 'lots';
+      return '';
+    });
+
+    const { run } = await import('./main');
+    await run();
+
+    expect(mocks.setFailed).toHaveBeenCalledWith(
+      'Action failed: Invalid api_retries "lots", expected a non-negative integer'
+    );
+  });
+
+  describe('anomalies', () => {
+    beforeEach(() => {
+      mocks.getOctokit.mockReturnValue({
+        rest: {
+          repos: {
+            getContent: vi
+              .fn()
+              .mockRejectedValue({ status: 404 })
+              .mockResolvedValueOnce({
+                data: {
+                  content: Buffer.from(
+                    JSON.stringify({ a: '2.0.0', b: '1.0.0', c: '1.0.0' })
+                  ).toString('base64')
+                }
+              })
+              .mockResolvedValueOnce({
+                data: {
+                  content: Buffer.from(
+                    JSON.stringify({ a: '1.0.0', c: '3.0.0' })
+                  ).toString('base64')
+                }
+              })
+          }
+        }
+      } as unknown as InstanceType<typeof GitHub>);
+    });
+
+    it('should warn about and output each anomaly', async () => {
+      const { run } = await import('./main');
+      await run();
+
+      expect(mocks.warning).toHaveBeenCalledWith(
+        'a was downgraded from 2.0.0 to 1.0.0',
+        { title: 'Manifest anomaly' }
+      );
+      expect(mocks.warning).toHaveBeenCalledWith(
+        'b was removed from the manifest (was 1.0.0)',
+        { title: 'Manifest anomaly' }
+      );
+      expect(mocks.warning).toHaveBeenCalledWith(
+        'c skipped a major version, from 1.0.0 to 3.0.0',
+        { title: 'Manifest anomaly' }
+      );
+      expect(mocks.setOutput).toHaveBeenCalledWith('has_anomalies', true);
+      expect(mocks.setOutput).toHaveBeenCalledWith(
+        'anomalies',
+        JSON.stringify({
+          a: { kind: 'downgrade', oldVersion: '2.0.0', newVersion: '1.0.0' },
+          c: { kind: 'multi-major', oldVersion: '1.0.0', newVersion: '3.0.0' },
+          b: { kind: 'removal', oldVersion: '1.0.0', newVersion: null }
+        })
+      );
+      expect(mocks.setFailed).not.toHaveBeenCalled();
+    });
+
+    it('should fail when fail_on_anomalies is true', async () => {
+      mocks.getInput.mockImplementation((name: string) => {
+        if (name === 'github_token') return 'test-token';
+        if (name === 'fail_on_anomalies') return 'true';
+        return '';
+      });
+
+      const { run } = await import('./main');
+      await run();
+
+      expect(mocks.setOutput).toHaveBeenCalledWith('has_major_bump', true);
+      expect(mocks.setFailed).toHaveBeenCalledWith(
+        'Action failed: ⛔️ Manifest anomalies found in a, c, b'
+      );
+    });
+  });
+
+  describe('webhook notifications', () => {
+    const server = useTestServer('/hook');
+
+    const setInputs = (inputs: Record<string, string>) =>
+      mocks.getInput.mockImplementation((name: string) => {
+        if (name === 'github_token') return 'test-token';
+        return inputs[name] ?? '';
+      });
+
+    const mockManifests = (base: string, head: string) =>
+      mocks.getOctokit.mockReturnValue({
+        rest: {
+          repos: {
+            getContent: vi
+              .fn()
+              .mockRejectedValue({ status: 404 })
+              .mockResolvedValueOnce({
+                data: { content: Buffer.from(base).toString('base64') }
+              })
+              .mockResolvedValueOnce({
+                data: { content: Buffer.from(head).toString('base64') }
+              })
+          }
+        }
+      } as unknown as InstanceType<typeof GitHub>);
+
+    beforeEach(() => {
+      (mocks.context.payload.pull_request as Record<string, unknown>).number =
+        7;
+    });
+
+    it('should POST the rendered template when majors are detected', async () => {
+      server.handlers.push(respond(200));
+      setInputs({
+        webhook_url: server.url,
+        webhook_template:
+          '{"text": "{{repository}}{{#bumps}} {{path}}@{{new}}{{/bumps}}", "pr": "{{pullRequestUrl}}"}'
+      });
+      mockManifests('{"packages/foo": "1.0.0"}', '{"packages/foo": "2.0.0"}');
+
+      const { run } = await import('./main');
+      await run();
+
+      const payload =
+        '{"text": "test-owner/test-repo packages/foo@2.0.0", "pr": "https://github.com/test-owner/test-repo/pull/7"}';
+      expect(server.requests.map(({ body }) => body)).toEqual([payload]);
+      expect(mocks.setOutput).toHaveBeenCalledWith('webhook_payload', payload);
+      expect(mocks.info).toHaveBeenCalledWith(
+        '📣 Sent webhook notification (200)'
+      );
+      expect(mocks.setFailed).not.toHaveBeenCalled();
+    });
+
+    it('should only render the payload in dry-run mode', async () => {
+      setInputs({ webhook_url: server.url, webhook_dry_run: 'true' });
+      mockManifests('{".": "1.0.0"}', '{".": "2.0.0"}');
+
+      const { run } = await import('./main');
+      await run();
+
+      const [, payload] = mocks.setOutput.mock.calls.find(
+        ([name]) => name === 'webhook_payload'
+      ) as [string, string];
+
+      expect(server.requests).toEqual([]);
+      expect(JSON.parse(payload).bumps).toEqual([
+        {
+          path: '.',
+          component: null,
+          old: '1.0.0',
+          new: '2.0.0',
+          bump: 'major'
+        }
+      ]);
+      expect(mocks.info).toHaveBeenCalledWith(
+        `📣 Webhook dry run, not sending:\n${payload}`
+      );
+    });
+
+    it('should not notify without major bumps', async () => {
+      setInputs({ webhook_url: server.url });
+      mockManifests('{".": "1.0.0"}', '{".": "1.1.0"}');
+
+      const { run } = await import('./main');
+      await run();
+
+      expect(server.requests).toEqual([]);
+      expect(mocks.setOutput).not.toHaveBeenCalledWith(
+        'webhook_payload',
+        expect.anything()
+      );
+    });
+
+    it('should fail when the webhook rejects the payload', async () => {
+      server.handlers.push(respond(400));
+      setInputs({
+        webhook_url: server.url,
+        webhook_headers: 'Authorization: Bearer abc, def'
+      });
+      mockManifests('{".": "1.0.0"}', '{".": "2.0.0"}');
+
+      const { run } = await import('./main');
+      await run();
+
+      expect(server.requests).toHaveLength(1);
+      expect(mocks.setFailed).toHaveBeenCalledWith(
+        'Action failed: ⛔️ Webhook notification failed: Webhook responded with 400 Bad Request'
+      );
+    });
+  });
+
+  describe('path filters and policies', () => {
+    beforeEach(() => {
+      mocks.getInput.mockImplementation((name: string) => {
+        if (name === 'github_token') return 'test-token';
+        if (name === 'exclude_paths') return 'internal/*';
+        if (name === 'path_policies')
+          return [
+            'tools/*: ignore',
+            'sdk/*: require-label sdk-major-approved',
+            'docs: warn'
+          ].join('\n');
+        return '';
+      });
+
+      const manifest = (version: string) => ({
+        data: {
+          content: Buffer.from(
+            JSON.stringify({
+              'tools/lint': version,
+              'sdk/js': version,
+              docs: version,
+              'internal/cache': version
+            })
+          ).toString('base64')
+        }
+      });
+
+      mocks.getOctokit.mockReturnValue({
+        rest: {
+          repos: {
+            getContent: vi
+              .fn()
+              .mockRejectedValue({ status: 404 })
+              .mockResolvedValueOnce(manifest('1.0.0'))
+              .mockResolvedValueOnce(manifest('2.0.0'))
+          }
+        }
+      } as unknown as InstanceType<typeof GitHub>);
+    });
+
+    it('should apply policies and record which policy handled each path', async () => {
+      mocks.context.payload = {
+        pull_request: {
+          base: { sha: 'base-sha-123' },
+          head: { sha: 'head-sha-456' },
+          labels: [{ name: 'sdk-major-approved' }]
+        }
+      };
+
+      const { run } = await import('./main');
+      await run();
+
+      expect(mocks.setOutput).toHaveBeenCalledWith(
+        'updated_paths',
+        JSON.stringify({
+          'sdk/js': ['1.0.0', '2.0.0'],
+          docs: ['1.0.0', '2.0.0']
+        })
+      );
+      expect(mocks.setOutput).toHaveBeenCalledWith(
+        'path_policies',
+        JSON.stringify({
+          'tools/lint': { policy: 'ignore', label: null },
+          'sdk/js': { policy: 'require-label', label: 'sdk-major-approved' },
+          docs: { policy: 'warn', label: null }
+        })
+      );
+      expect(mocks.info).toHaveBeenCalledWith(
+        '🙈 tools/lint: 1.0.0 → 2.0.0 (major, ignored by path policy)'
+      );
+      expect(mocks.warning).toHaveBeenCalledWith(
+        'docs has a major bump (1.0.0 → 2.0.0)',
+        { title: 'Path policy' }
+      );
+      expect(mocks.setFailed).not.toHaveBeenCalled();
+    });
+
+    it('should accept brace globs and labels with commas', async () => {
+      mocks.getInput.mockImplementation((name: string) => {
+        if (name === 'github_token') return 'test-token';
+        if (name === 'include_paths') return '{sdk,tools}/*, docs';
+        if (name === 'path_policies')
+          return '{sdk,tools}/*: require-label sdk, tools approved';
+        return '';
+      });
+      mocks.context.payload = {
+        pull_request: {
+          base: { sha: 'base-sha-123' },
+          head: { sha: 'head-sha-456' },
+          labels: [{ name: 'sdk, tools approved' }]
+        }
+      };
+
+      const { run } = await import('./main');
+      await run();
+
+      expect(mocks.setOutput).toHaveBeenCalledWith(
+        'updated_paths',
+        JSON.stringify({
+          'tools/lint': ['1.0.0', '2.0.0'],
+          'sdk/js': ['1.0.0', '2.0.0'],
+          docs: ['1.0.0', '2.0.0']
+        })
+      );
+      expect(mocks.setOutput).toHaveBeenCalledWith(
+        'path_policies',
+        JSON.stringify({
+          'tools/lint': {
+            policy: 'require-label',
+            label: 'sdk, tools approved'
+          },
+          'sdk/js': { policy: 'require-label', label: 'sdk, tools approved' },
+          docs: { policy: 'report', label: null }
+        })
+      );
+      expect(mocks.setFailed).not.toHaveBeenCalled();
+    });
+
+    it('should fail when a require-label path is missing its label', async () => {
+      const { run } = await import('./main');
+      await run();
+
+      expect(mocks.setOutput).toHaveBeenCalledWith('has_major_bump', true);
+      expect(mocks.setFailed).toHaveBeenCalledWith(
+        'Action failed: ⛔️ Path policies failed:\n- sdk/js has a major bump (1.0.0 → 2.0.0), which needs the "sdk-major-approved" label'
+      );
+    });
+  });
+
+  describe('manifest validation', () => {
+    const mockManifests = (base: string, head: string) => {
+      const mockOctokit = {
+        rest: {
+          repos: {
+            getContent: vi
+              .fn()
+              .mockRejectedValue({ status: 404 })
+              .mockResolvedValueOnce({
+                data: { content: Buffer.from(base).toString('base64') }
+              })
+              .mockResolvedValueOnce({
+                data: { content: Buffer.from(head).toString('base64') }
+              })
+          }
+        }
+      };
+
+      mocks.getOctokit.mockReturnValue(
+        mockOctokit as unknown as InstanceType<typeof GitHub>
+      );
+    };
+
+    const headManifest = [
+      '{',
+      '  "packages/foo": "2.0.0",',
+      '  "packages/bar": "v-next"',
+      '}'
+    ].join('\n');
+
+    it('should annotate invalid entries and fail in strict mode', async () => {
+      mockManifests(
+        JSON.stringify({ 'packages/foo': '1.0.0', 'packages/bar': '1.0.0' }),
+        headManifest
+      );
+
+      const { run } = await import('./main');
+      await run();
+
+      expect(mocks.error).toHaveBeenCalledWith(
+        'Invalid version format: v-next for packages/bar',
+        {
+          title: 'Invalid manifest entry',
+          file: '.release-please-manifest.json',
+          startLine: 3
+        }
+      );
+      expect(mocks.setOutput).toHaveBeenCalledWith(
+        'manifest_problems',
+        JSON.stringify([
+          {
+            manifestFile: '.release-please-manifest.json',
+            ref: 'head-sha-456',
+            path: 'packages/bar',
+            line: 3,
+            message: 'Invalid version format: v-next for packages/bar'
+          }
+        ])
+      );
+      expect(mocks.setOutput).not.toHaveBeenCalledWith(
+        'has_major_bump',
+        expect.anything()
+      );
+      expect(mocks.setFailed).toHaveBeenCalledWith(
+        'Action failed: ⛔️ Invalid manifest entries in .release-please-manifest.json'
+      );
+    });
+
+    it('should skip invalid entries with warnings in lenient mode', async () => {
+      mocks.getInput.mockImplementation((name: string) => {
+        if (name === 'github_token') return 'test-token';
+        if (name === 'manifest_validation') return 'lenient';
+        return '';
+      });
+      mockManifests(
+        JSON.stringify({ 'packages/foo': '1.0.0', 'packages/bar': '1.0.0' }),
+        headManifest
+      );
+
+      const { run } = await import('./main');
+      await run();
+
+      expect(mocks.error).not.toHaveBeenCalled();
+      expect(mocks.warning).toHaveBeenCalledWith(
+        'Invalid version format: v-next for packages/bar',
+        {
+          title: 'Invalid manifest entry',
+          file: '.release-please-manifest.json',
+          startLine: 3
+        }
+      );
+      expect(mocks.setOutput).toHaveBeenCalledWith(
+        'updated_paths',
+        JSON.stringify({ 'packages/foo': ['1.0.0', '2.0.0'] })
+      );
+      expect(mocks.setFailed).not.toHaveBeenCalled();
+    });
+
+    it('should not point annotations for the base manifest at the head file', async () => {
+      mocks.getInput.mockImplementation((name: string) => {
+        if (name === 'github_token') return 'test-token';
+        if (name === 'manifest_validation') return 'lenient';
+        return '';
+      });
+      mockManifests(
+        '{ "packages/foo": ',
+        JSON.stringify({ 'packages/foo': '1.0.0' })
+      );
+
+      const { run } = await import('./main');
+      await run();
+
+      expect(mocks.warning).toHaveBeenCalledWith(
+        expect.stringMatching(
+          /^Manifest is not valid JSON: .* \(in \.release-please-manifest\.json at base-sha-123\)$/
+        ),
+        { title: 'Invalid manifest entry' }
+      );
+      expect(mocks.setOutput).toHaveBeenCalledWith('all_changes', '{}');
+    });
+
+    it('should output an empty list when manifests are valid', async () => {
+      mockManifests(
+        JSON.stringify({ '.': '1.0.0' }),
+        JSON.stringify({ '.': '1.1.0' })
+      );
+
+      const { run } = await import('./main');
+      await run();
+
+      expect(mocks.setOutput).toHaveBeenCalledWith('manifest_problems', '[]');
+      expect(mocks.setFailed).not.toHaveBeenCalled();
+    });
+  });
+
+  it('should throw error when the base ref cannot be determined', async () => {
     // Modify the context for this test
-    (mocks.context.payload as Record<string, unknown>).pull_request = undefined;
+    mocks.context.eventName = 'workflow_dispatch';
+    mocks.context.payload = {};
 
     const { run } = await import('./main');
     await run();
 
     expect(mocks.setFailed).toHaveBeenCalledWith(
-      'Action failed: ⛔️ This action can only be run on pull_request events'
+      'Action failed: ⛔️ Unable to determine the base ref for workflow_dispatch events, set the base_ref input'
     );
   });
 });
@@ -1,37 +1,592 @@
 import * as core from '@actions/core';
-import { context, getOctokit } from '@actions/github';
-import { detectMajorBumps } from './utils/manifest';
+import { context } from '@actions/github';
+import type { GitHub } from '@actions/github/lib/utils';
+import {
+  type Anomaly,
+  describeAnomaly,
+  detectAnomalies
+} from './utils/anomalies';
+import { createOctokit } from './utils/api';
+import { type BreakingChanges, getBreakingChanges } from './utils/changelog';
+import { syncComment } from './utils/comment';
+import {
+  type BumpCheck,
+  COMMIT_VERIFICATION_MODES,
+  getBumpMismatches,
+  verifyBumps
+} from './utils/commits';
+import {
+  type PackageDetails,
+  type ReleasePleaseConfig,
+  getConfigAtRef,
+  resolveConfigFiles,
+  resolvePackages
+} from './utils/config';
+import {
+  type Dependent,
+  findDependents,
+  getWorkspacePackages
+} from './utils/dependents';
+import { CONTENT_SOURCES, createGitSource, listTags } from './utils/files';
+import { createGateCheck, evaluateGate } from './utils/gate';
+import {
+  type LabelConfig,
+  getDesiredLabels,
+  hasLabelConfig,
+  syncLabels
+} from './utils/labels';
+import {
+  type ManifestAnalysis,
+  type ManifestDetection,
+  detectManifestChanges,
+  mergeAnalyses,
+  mergeByManifest,
+  readManifestAtRef,
+  resolveManifestFiles
+} from './utils/manifest';
+import { getBumpMatrix } from './utils/matrix';
+import { evaluatePolicies, parsePolicyConfig } from './utils/policy';
+import { resolveHeadRef, resolveRefs } from './utils/refs';
+import {
+  type PullRequestInfo,
+  findMergedReleasePullRequest,
+  getPullRequestInfo,
+  isDefaultBranchPush,
+  isReleasePullRequest
+} from './utils/release';
+import { renderSummary } from './utils/report';
+import { COMPARISON_MODES, detectChangesSinceRelease } from './utils/tags';
+import { type ManifestProblem, VALIDATION_MODES } from './utils/validation';
+import {
+  BREAKING_SEMANTICS,
+  DETECT_LEVELS,
+  type DetectLevel,
+  PRERELEASE_HANDLING,
+  parseVersioningConfig
+} from './utils/version';
+import {
+  DEFAULT_WEBHOOK_TEMPLATE,
+  parseWebhookHeaders,
+  renderWebhookPayload,
+  sendWebhook
+} from './utils/webhook';
 
 const INPUT_GITHUB_TOKEN = 'github_token';
 const INPUT_MANIFEST_FILE = 'manifest_file';
+const INPUT_SOURCE = 'source';
+const INPUT_CONFIG_FILE = 'config_file';
+const INPUT_BASE_REF = 'base_ref';
+const INPUT_HEAD_REF = 'head_ref';
+const INPUT_BREAKING_SEMANTICS = 'breaking_semantics';
+const INPUT_DETECT_LEVEL = 'detect_level';
+const INPUT_PRERELEASE_HANDLING = 'prerelease_handling';
+const INPUT_COMMENT = 'comment';
+const INPUT_MAJOR_LABEL = 'major_label';
+const INPUT_MINOR_LABEL = 'minor_label';
+const INPUT_PATCH_LABEL = 'patch_label';
+const INPUT_COMPONENT_LABEL = 'component_label';
+const INPUT_GATE_CHECK_NAME = 'gate_check_name';
+const INPUT_GATE_APPROVAL_LABEL = 'gate_approval_label';
+const INPUT_GATE_APPROVERS = 'gate_approvers';
+const INPUT_JOB_SUMMARY = 'job_summary';
+const INPUT_VERIFY_COMMITS = 'verify_commits';
+const INPUT_FIND_DEPENDENTS = 'find_dependents';
+const INPUT_SKIP_NON_RELEASE_PRS = 'skip_non_release_prs';
+const INPUT_POST_MERGE = 'post_merge';
+const INPUT_VERSIONING = 'versioning';
+const INPUT_MANIFEST_VALIDATION = 'manifest_validation';
+const INPUT_API_URL = 'api_url';
+const INPUT_API_RETRIES = 'api_retries';
+const INPUT_MATRIX_LEVEL = 'matrix_level';
+const INPUT_INCLUDE_PATHS = 'include_paths';
+const INPUT_EXCLUDE_PATHS = 'exclude_paths';
+const INPUT_PATH_POLICIES = 'path_policies';
+const INPUT_FAIL_ON_ANOMALIES = 'fail_on_anomalies';
+const INPUT_COMPARE_TO = 'compare_to';
+const INPUT_WEBHOOK_URL = 'webhook_url';
+const INPUT_WEBHOOK_HEADERS = 'webhook_headers';
+const INPUT_WEBHOOK_TEMPLATE = 'webhook_template';
+const INPUT_WEBHOOK_DRY_RUN = 'webhook_dry_run';
 const OUTPUT_HAS_MAJOR_BUMP = 'has_major_bump';
 const OUTPUT_UPDATED_PATHS = 'updated_paths';
+const OUTPUT_HAS_MINOR_BUMP = 'has_minor_bump';
+const OUTPUT_HAS_PATCH_BUMP = 'has_patch_bump';
+const OUTPUT_ALL_CHANGES = 'all_changes';
+const OUTPUT_HAS_MAJOR_PRERELEASE = 'has_major_prerelease';
+const OUTPUT_MAJOR_PRERELEASES = 'major_prereleases';
+const OUTPUT_UPDATED_PACKAGES = 'updated_packages';
+const OUTPUT_GATE_CONCLUSION = 'gate_conclusion';
+const OUTPUT_BREAKING_CHANGES = 'breaking_changes';
+const OUTPUT_BUMP_MISMATCHES = 'bump_mismatches';
+const OUTPUT_DEPENDENTS = 'dependents';
+const OUTPUT_IS_RELEASE_PR = 'is_release_pr';
+const OUTPUT_SKIPPED = 'skipped';
+const OUTPUT_RELEASE_PR_NUMBER = 'release_pr_number';
+const OUTPUT_WEBHOOK_PAYLOAD = 'webhook_payload';
+const OUTPUT_MANIFEST_PROBLEMS = 'manifest_problems';
+const OUTPUT_BUMP_MATRIX = 'bump_matrix';
+const OUTPUT_PATH_POLICIES = 'path_policies';
+const OUTPUT_ANOMALIES = 'anomalies';
+const OUTPUT_HAS_ANOMALIES = 'has_anomalies';
+const OUTPUT_RELEASE_TAGS = 'release_tags';
+
+interface ManifestResult {
+  analysis: ManifestAnalysis;
+  packages: Record<string, PackageDetails>;
+  breakingChanges: Record<string, BreakingChanges>;
+  bumpChecks: Record<string, BumpCheck>;
+  dependents: Record<string, Dependent[]>;
+  anomalies: Record<string, Anomaly>;
+  releaseTags: Record<string, string>;
+}
+
+/**
+ * Read an input that must be one of a fixed set of values
+ * @param name - Input name
+ * @param choices - Allowed values
+ * @param defaultValue - Value used when the input is empty
+ * @returns The input value
+ * @throws Error if the input is not one of the allowed values
+ */
+function getChoiceInput<T extends string>(
+  name: string,
+  choices: readonly T[],
+  defaultValue: T
+): T {
+  const value = core.getInput(name) || defaultValue;
+
+  if (!choices.includes(value as T)) {
+    throw new Error(
+      `Invalid ${name} "${value}", expected one of: ${choices.join(', ')}`
+    );
+  }
+
+  return value as T;
+}
+
+/**
+ * Read a boolean input
+ * @param name - Input name
+ * @param defaultValue - Value used when the input is empty
+ * @returns true if the input is set to "true"
+ */
+function getBooleanInput(name: string, defaultValue = false): boolean {
+  const value = core.getInput(name);
+
+  return value ? value.toLowerCase() === 'true' : defaultValue;
+}
+
+/**
+ * Read a non-negative integer input
+ * @param name - Input name
+ * @param defaultValue - Value used when the input is empty
+ * @returns The input value
+ * @throws Error if the input is not a non-negative integer
+ */
+function getIntegerInput(name: string, defaultValue: number): number {
+  const value = core.getInput(name);
+
+  if (!value) {
+    return defaultValue;
+  }
+
+  if (!/^\d+$/.test(value)) {
+    throw new Error(
+      `Invalid ${name} "${value}", expected a non-negative integer`
+    );
+  }
+
+  return Number(value);
+}
+
+/**
+ * Read a list input separated by newlines only, for entries that may contain commas
+ * @param name - Input name
+ * @returns Trimmed, non-empty entries
+ */
+function getLinesInput(name: string): string[] {
+  return core
+    .getInput(name)
+    .split('\n')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Read a list input, separated by commas or newlines
+ * @param name - Input name
+ * @returns Trimmed, non-empty entries
+ */
+function getListInput(name: string): string[] {
+  // Commas inside {a,b} globs separate alternatives, not entries
+  return core
+    .getInput(name)
+    .split(/\n|,(?![^{}\n]*\})/)
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Ensure a GitHub API client is available for a feature that needs one
+ * @param octokit - GitHub API client, or null if no token was provided
+ * @param feature - Description of the feature, used in the error message
+ * @returns The GitHub API client
+ * @throws Error if no token was provided
+ */
+function requireOctokit(
+  octokit: InstanceType<typeof GitHub> | null,
+  feature: string
+): InstanceType<typeof GitHub> {
+  if (!octokit) {
+    throw new Error(`⛔️ github_token is required to ${feature}`);
+  }
+
+  return octokit;
+}
 
 export async function run(): Promise<void> {
   try {
-    if (!context.payload.pull_request) {
-      throw new Error('⛔️ This action can only be run on pull_request events');
+    const source = getChoiceInput(INPUT_SOURCE, CONTENT_SOURCES, 'api');
+    const token = core.getInput(INPUT_GITHUB_TOKEN, {
+      required: source === 'api'
+    });
+    const manifestPatterns = getListInput(INPUT_MANIFEST_FILE);
+    const configFiles = getListInput(INPUT_CONFIG_FILE);
+    const breakingSemantics = getChoiceInput(
+      INPUT_BREAKING_SEMANTICS,
+      BREAKING_SEMANTICS,
+      'strict-major'
+    );
+    const detectLevel = getChoiceInput(
+      INPUT_DETECT_LEVEL,
+      DETECT_LEVELS,
+      'major'
+    );
+    const matrixLevel = getChoiceInput(
+      INPUT_MATRIX_LEVEL,
+      DETECT_LEVELS,
+      'major'
+    );
+    const prerelease = getChoiceInput(
+      INPUT_PRERELEASE_HANDLING,
+      PRERELEASE_HANDLING,
+      'report'
+    );
+    const comment = getBooleanInput(INPUT_COMMENT);
+    const jobSummary = getBooleanInput(INPUT_JOB_SUMMARY, true);
+    const verifyCommits = getChoiceInput(
+      INPUT_VERIFY_COMMITS,
+      COMMIT_VERIFICATION_MODES,
+      'off'
+    );
+    const findDependentsEnabled = getBooleanInput(INPUT_FIND_DEPENDENTS);
+    const skipNonReleasePrs = getBooleanInput(INPUT_SKIP_NON_RELEASE_PRS);
+    const postMerge = getBooleanInput(INPUT_POST_MERGE);
+    const webhookUrl = core.getInput(INPUT_WEBHOOK_URL);
+    const webhookHeaders = parseWebhookHeaders(
+      getLinesInput(INPUT_WEBHOOK_HEADERS)
+    );
+    const webhookDryRun = getBooleanInput(INPUT_WEBHOOK_DRY_RUN);
+    const versioning = parseVersioningConfig(getLinesInput(INPUT_VERSIONING));
+    const paths = {
+      include: getListInput(INPUT_INCLUDE_PATHS),
+      exclude: getListInput(INPUT_EXCLUDE_PATHS)
+    };
+    const policies = parsePolicyConfig(getLinesInput(INPUT_PATH_POLICIES));
+    const failOnAnomalies = getBooleanInput(INPUT_FAIL_ON_ANOMALIES);
+    const compareTo = getChoiceInput(
+      INPUT_COMPARE_TO,
+      COMPARISON_MODES,
+      'base'
+    );
+    const validation = getChoiceInput(
+      INPUT_MANIFEST_VALIDATION,
+      VALIDATION_MODES,
+      'strict'
+    );
+    const labelConfig: LabelConfig = {
+      major: core.getInput(INPUT_MAJOR_LABEL),
+      minor: core.getInput(INPUT_MINOR_LABEL),
+      patch: core.getInput(INPUT_PATCH_LABEL),
+      componentTemplate: core.getInput(INPUT_COMPONENT_LABEL)
+    };
+    const gateCheckName = core.getInput(INPUT_GATE_CHECK_NAME);
+    const octokit = token
+      ? createOctokit(token, {
+          baseUrl: core.getInput(INPUT_API_URL) || undefined,
+          retries: getIntegerInput(INPUT_API_RETRIES, 3),
+          onRetry: (error, delay, attempt) =>
+            core.info(
+              `🔁 Retrying GitHub API request in ${Math.ceil(delay / 1000)}s (attempt ${attempt}): ${error instanceof Error ? error.message : String(error)}`
+            )
+        })
+      : null;
+    const client =
+      source === 'git'
+        ? createGitSource()
+        : requireOctokit(octokit, 'read files from the API');
+
+    const refOverrides = {
+      baseRef: core.getInput(INPUT_BASE_REF),
+      headRef: core.getInput(INPUT_HEAD_REF)
+    };
+    // Release tags take the place of the base ref
+    const { baseRef, headRef } =
+      compareTo === 'tags'
+        ? {
+            baseRef: null,
+            headRef: resolveHeadRef(context, refOverrides.headRef)
+          }
+        : resolveRefs(context, refOverrides);
+
+    const configRequests = new Map<
+      string,
+      Promise<ReleasePleaseConfig | null>
+    >();
+    const getConfig = (configPath: string | null) => {
+      if (!configPath) {
+        return Promise.resolve(null);
+      }
+
+      if (!configRequests.has(configPath)) {
+        configRequests.set(
+          configPath,
+          getConfigAtRef(client, configPath, headRef)
+        );
+      }
+
+      return configRequests.get(
+        configPath
+      ) as Promise<ReleasePleaseConfig | null>;
+    };
+    // Title patterns are checked before manifests are resolved, against every listed config
+    const getTitleConfigs = () =>
+      Promise.all(configFiles.length > 0 ? configFiles.map(getConfig) : [null]);
+    const isReleasePr = async (pullRequest: PullRequestInfo) =>
+      (await getTitleConfigs()).some((config) =>
+        isReleasePullRequest(pullRequest, config)
+      );
+
+    const pullRequest = getPullRequestInfo(context);
+
+    if (skipNonReleasePrs && pullRequest && !(await isReleasePr(pullRequest))) {
+      core.info(
+        `⏭️ Skipping, #${context.payload.pull_request?.number} is not a release-please pull request`
+      );
+      core.setOutput(OUTPUT_IS_RELEASE_PR, false);
+      core.setOutput(OUTPUT_SKIPPED, true);
+      return;
     }
 
-    const token = core.getInput(INPUT_GITHUB_TOKEN, { required: true });
-    const manifestFile =
-      core.getInput(INPUT_MANIFEST_FILE) || '.release-please-manifest.json';
-    const octokit = getOctokit(token);
+    let mergedReleasePr: number | null = null;
 
-    const pr = context.payload.pull_request;
-    const baseSha = pr.base.sha;
-    const headSha = pr.head.sha;
+    if (postMerge && isDefaultBranchPush(context)) {
+      mergedReleasePr = await findMergedReleasePullRequest(
+        octokit,
+        context,
+        headRef,
+        await getTitleConfigs()
+      );
 
-    core.info(
-      `Analyzing ${manifestFile} changes between ${baseSha} and ${headSha}`
-    );
+      if (mergedReleasePr === null) {
+        core.info(
+          `⏭️ Skipping, ${headRef} did not come from a merged release-please pull request`
+        );
+        core.setOutput(OUTPUT_IS_RELEASE_PR, false);
+        core.setOutput(OUTPUT_SKIPPED, true);
+        return;
+      }
+
+      core.info(
+        `🚢 ${headRef} came from merged release-please pull request #${mergedReleasePr}`
+      );
+    }
 
-    const analysis = await detectMajorBumps(
-      octokit,
-      manifestFile,
-      baseSha,
-      headSha
+    const manifestFiles = await resolveManifestFiles(
+      client,
+      manifestPatterns.length > 0
+        ? manifestPatterns
+        : ['.release-please-manifest.json'],
+      headRef
     );
+    const configPaths = resolveConfigFiles(
+      configFiles,
+      manifestPatterns,
+      manifestFiles
+    );
+    const analysisOptions = {
+      breakingSemantics,
+      detectLevel,
+      prerelease,
+      versioning,
+      paths,
+      policies
+    };
+    const analyses: Record<string, ManifestAnalysis> = {};
+    const releaseTags: Record<string, Record<string, string>> = {};
+    const problems: ManifestProblem[] = [];
+    let tags: string[] | undefined;
+
+    for (const manifestFile of manifestFiles) {
+      let detection: ManifestDetection;
+
+      if (baseRef === null) {
+        core.info(
+          `Analyzing ${manifestFile} changes since the last release tags, up to ${headRef}`
+        );
+
+        tags ??= await listTags(client);
+        const released = await detectChangesSinceRelease(
+          client,
+          manifestFile,
+          headRef,
+          tags,
+          await getConfig(configPaths[manifestFile]),
+          analysisOptions
+        );
+
+        releaseTags[manifestFile] = released.releaseTags;
+        detection = released;
+
+        for (const path of released.skippedPaths) {
+          core.warning(
+            `Skipping ${path} in ${manifestFile}, set its component or package-name in config_file to compare it against its own release tags`
+          );
+        }
+      } else {
+        core.info(
+          `Analyzing ${manifestFile} changes between ${baseRef} and ${headRef}`
+        );
+
+        detection = await detectManifestChanges(
+          client,
+          manifestFile,
+          baseRef,
+          headRef,
+          analysisOptions
+        );
+      }
+
+      analyses[manifestFile] = detection.analysis;
+      problems.push(...detection.problems);
+    }
+
+    for (const problem of problems) {
+      const annotate = validation === 'strict' ? core.error : core.warning;
+
+      // Line numbers only point at the right place in the head manifest
+      annotate(
+        problem.ref === headRef
+          ? problem.message
+          : `${problem.message} (in ${problem.manifestFile} at ${problem.ref})`,
+        problem.ref === headRef
+          ? {
+              title: 'Invalid manifest entry',
+              file: problem.manifestFile,
+              startLine: problem.line ?? undefined
+            }
+          : { title: 'Invalid manifest entry' }
+      );
+    }
+
+    core.setOutput(OUTPUT_MANIFEST_PROBLEMS, JSON.stringify(problems));
+
+    if (validation === 'strict' && problems.length > 0) {
+      throw new Error(
+        `⛔️ Invalid manifest entries in ${[...new Set(problems.map(({ manifestFile }) => manifestFile))].join(', ')}`
+      );
+    }
+
+    const results: Record<string, ManifestResult> = {};
+
+    for (const [manifestFile, manifestAnalysis] of Object.entries(analyses)) {
+      const config = await getConfig(configPaths[manifestFile]);
+      const manifestPackages = resolvePackages(
+        config,
+        manifestAnalysis.changes
+      );
+
+      results[manifestFile] = {
+        analysis: manifestAnalysis,
+        packages: manifestPackages,
+        breakingChanges: await getBreakingChanges(
+          client,
+          manifestAnalysis,
+          manifestPackages,
+          headRef
+        ),
+        bumpChecks:
+          verifyCommits === 'off'
+            ? {}
+            : await verifyBumps(
+                client,
+                manifestAnalysis,
+                config,
+                manifestPackages,
+                headRef,
+                versioning
+              ),
+        dependents: {},
+        anomalies: detectAnomalies(manifestAnalysis, versioning),
+        releaseTags: releaseTags[manifestFile] ?? {}
+      };
+    }
+
+    if (
+      findDependentsEnabled &&
+      Object.values(results).some(({ analysis }) => analysis.hasMajorBump)
+    ) {
+      const workspacePaths = new Set<string>();
+
+      for (const manifestFile of manifestFiles) {
+        const { manifest } = await readManifestAtRef(
+          client,
+          manifestFile,
+          headRef,
+          versioning
+        );
+
+        for (const path of Object.keys(manifest ?? {})) {
+          workspacePaths.add(path);
+        }
+      }
+
+      const workspace = await getWorkspacePackages(
+        client,
+        [...workspacePaths],
+        headRef
+      );
+
+      for (const result of Object.values(results)) {
+        result.dependents = findDependents(workspace, result.analysis);
+      }
+    }
+
+    const pick = <T>(fn: (result: ManifestResult) => T): Record<string, T> => {
+      const picked: Record<string, T> = {};
+
+      for (const manifestFile of manifestFiles) {
+        picked[manifestFile] = fn(results[manifestFile]);
+      }
+
+      return picked;
+    };
+
+    // Keep outputs keyed by path alone unless several manifests could share a path
+    const single =
+      manifestFiles.length === 1 ? results[manifestFiles[0]] : null;
+    const merge = <T>(
+      fn: (result: ManifestResult) => Record<string, T>
+    ): Record<string, T> => (single ? fn(single) : mergeByManifest(pick(fn)));
+
+    const analysis = single
+      ? single.analysis
+      : mergeAnalyses(pick(({ analysis }) => analysis));
+    const packages = merge(({ packages }) => packages);
+    const breakingChanges = merge(({ breakingChanges }) => breakingChanges);
+    const bumpChecks = merge(({ bumpChecks }) => bumpChecks);
+    const dependents = merge(({ dependents }) => dependents);
+    const anomalies = merge(({ anomalies }) => anomalies);
 
     if (analysis.hasMajorBump) {
       core.info('🚨 Major version bump(s) detected!');
@@ -45,8 +600,304 @@ export async function run(): Promise<void> {
       core.info('✅ No major version bumps detected');
     }
 
+    for (const [path, { version, changelogPath, notes }] of Object.entries(
+      breakingChanges
+    )) {
+      if (notes === null) {
+        core.warning(
+          `No ${version} section found in ${changelogPath} for ${path}`
+        );
+      }
+    }
+
+    const mismatches = getBumpMismatches(bumpChecks);
+
+    for (const [path, { tag, actual, expected }] of Object.entries(
+      bumpChecks
+    )) {
+      if (expected === null) {
+        core.warning(
+          `Unable to verify ${path}, release tag ${tag} was not found`
+        );
+      } else if (path in mismatches) {
+        core.warning(
+          `${path} has a ${actual} bump but commits since ${tag} suggest ${expected}`
+        );
+      }
+    }
+
+    for (const [path, anomaly] of Object.entries(anomalies)) {
+      core.warning(describeAnomaly(path, anomaly), {
+        title: 'Manifest anomaly'
+      });
+    }
+
+    for (const [path, [oldVersion, newVersion]] of Object.entries(
+      analysis.majorPrereleases
+    )) {
+      core.info(`🧪 ${path}: ${oldVersion} → ${newVersion} (major prerelease)`);
+    }
+
+    for (const [path, { policy }] of Object.entries(analysis.policies)) {
+      if (policy === 'ignore') {
+        const { oldVersion, newVersion, bump } = analysis.changes[path];
+        core.info(
+          `🙈 ${path}: ${oldVersion} → ${newVersion} (${bump}, ignored by path policy)`
+        );
+      }
+    }
+
+    const policyResults = evaluatePolicies(
+      analysis,
+      context.payload.pull_request
+        ? (
+            (context.payload.pull_request.labels ?? []) as { name: string }[]
+          ).map(({ name }) => name)
+        : null
+    );
+
+    for (const warning of policyResults.warnings) {
+      core.warning(warning, { title: 'Path policy' });
+    }
+
+    for (const path of policyResults.skipped) {
+      core.warning(
+        `Skipping require-label policy for ${path}, no pull request found for this event`
+      );
+    }
+
+    for (const [path, change] of Object.entries(analysis.changes)) {
+      if (change.bump !== 'major') {
+        core.info(
+          `🔹 ${path}: ${change.oldVersion ?? '(none)'} → ${change.newVersion ?? '(none)'} (${change.bump})`
+        );
+      }
+    }
+
+    const releasePr = pullRequest
+      ? await isReleasePr(pullRequest)
+      : mergedReleasePr !== null;
+
+    core.setOutput(OUTPUT_IS_RELEASE_PR, releasePr);
+    core.setOutput(OUTPUT_SKIPPED, false);
+
+    if (releasePr) {
+      core.setOutput(
+        OUTPUT_RELEASE_PR_NUMBER,
+        mergedReleasePr ?? context.payload.pull_request?.number
+      );
+    }
+
     core.setOutput(OUTPUT_HAS_MAJOR_BUMP, analysis.hasMajorBump);
     core.setOutput(OUTPUT_UPDATED_PATHS, JSON.stringify(analysis.majorBumps));
+    core.setOutput(OUTPUT_HAS_MINOR_BUMP, analysis.hasMinorBump);
+    core.setOutput(OUTPUT_HAS_PATCH_BUMP, analysis.hasPatchBump);
+    core.setOutput(OUTPUT_ALL_CHANGES, JSON.stringify(analysis.changes));
+    core.setOutput(OUTPUT_UPDATED_PACKAGES, JSON.stringify(packages));
+    core.setOutput(OUTPUT_HAS_MAJOR_PRERELEASE, analysis.hasMajorPrerelease);
+    core.setOutput(
+      OUTPUT_MAJOR_PRERELEASES,
+      JSON.stringify(analysis.majorPrereleases)
+    );
+    core.setOutput(OUTPUT_BREAKING_CHANGES, JSON.stringify(breakingChanges));
+    core.setOutput(OUTPUT_PATH_POLICIES, JSON.stringify(analysis.policies));
+    core.setOutput(OUTPUT_ANOMALIES, JSON.stringify(anomalies));
+    core.setOutput(OUTPUT_HAS_ANOMALIES, Object.keys(anomalies).length > 0);
+    const getMatrix = (level: DetectLevel) =>
+      single
+        ? getBumpMatrix(single.analysis, single.packages, level)
+        : {
+            include: manifestFiles.flatMap((manifestFile) =>
+              getBumpMatrix(
+                results[manifestFile].analysis,
+                results[manifestFile].packages,
+                level
+              ).include.map((entry) => ({ manifest: manifestFile, ...entry }))
+            )
+          };
+
+    core.setOutput(OUTPUT_BUMP_MATRIX, JSON.stringify(getMatrix(matrixLevel)));
+
+    if (compareTo === 'tags') {
+      core.setOutput(
+        OUTPUT_RELEASE_TAGS,
+        JSON.stringify(merge(({ releaseTags }) => releaseTags))
+      );
+    }
+
+    if (verifyCommits !== 'off') {
+      core.setOutput(OUTPUT_BUMP_MISMATCHES, JSON.stringify(mismatches));
+    }
+
+    if (findDependentsEnabled) {
+      for (const [path, pathDependents] of Object.entries(dependents)) {
+        const [, newVersion] = analysis.majorBumps[path];
+
+        for (const dependent of pathDependents) {
+          const detail = dependent.direct
+            ? `${dependent.range}${dependent.satisfied === false ? `, does not admit ${newVersion}` : ''}`
+            : 'transitive';
+          core.info(`🔗 ${dependent.path} depends on ${path} (${detail})`);
+        }
+      }
+
+      core.setOutput(OUTPUT_DEPENDENTS, JSON.stringify(dependents));
+    }
+
+    if (jobSummary) {
+      // Outside GitHub Actions there is no GITHUB_STEP_SUMMARY file to write to
+      try {
+        await core.summary
+          .addRaw(
+            renderSummary(analysis, packages, {
+              changelogUrl: (changelogPath) =>
+                `${context.serverUrl}/${context.repo.owner}/${context.repo.repo}/blob/${headRef}/${changelogPath}`,
+              breakingChanges,
+              mismatches,
+              anomalies
+            })
+          )
+          .write();
+      } catch (error) {
+        core.warning(
+          `Skipping job summary, it could not be written: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+
+    const pullNumber = context.payload.pull_request?.number;
+
+    if (comment) {
+      if (pullNumber) {
+        const result = await syncComment(
+          requireOctokit(octokit, 'comment on pull requests'),
+          pullNumber,
+          analysis,
+          packages,
+          breakingChanges
+        );
+        core.info(`💬 PR comment ${result}`);
+      } else {
+        core.warning(
+          'Skipping PR comment, no pull request found for this event'
+        );
+      }
+    }
+
+    if (hasLabelConfig(labelConfig)) {
+      if (pullNumber) {
+        const { added, removed } = await syncLabels(
+          requireOctokit(octokit, 'label pull requests'),
+          pullNumber,
+          getDesiredLabels(analysis, packages, labelConfig),
+          labelConfig
+        );
+
+        for (const label of added) {
+          core.info(`🏷️ Added label ${label}`);
+        }
+
+        for (const label of removed) {
+          core.info(`🏷️ Removed label ${label}`);
+        }
+      } else {
+        core.warning(
+          'Skipping PR labels, no pull request found for this event'
+        );
+      }
+    }
+
+    if (gateCheckName) {
+      if (pullNumber) {
+        const gateOctokit = requireOctokit(octokit, 'create gate check runs');
+        const result = await evaluateGate(
+          gateOctokit,
+          pullNumber,
+          analysis,
+          {
+            checkName: gateCheckName,
+            approvalLabel: core.getInput(INPUT_GATE_APPROVAL_LABEL),
+            approvers: getListInput(INPUT_GATE_APPROVERS).map((approver) =>
+              approver.replace(/^@/, '')
+            )
+          },
+          packages,
+          breakingChanges
+        );
+
+        await createGateCheck(
+          gateOctokit,
+          context.payload.pull_request?.head.sha,
+          gateCheckName,
+          result
+        );
+        core.info(`🚦 ${gateCheckName}: ${result.title}`);
+        core.setOutput(OUTPUT_GATE_CONCLUSION, result.conclusion);
+      } else {
+        core.warning(
+          'Skipping gate check, no pull request found for this event'
+        );
+      }
+    }
+
+    if ((webhookUrl || webhookDryRun) && analysis.hasMajorBump) {
+      const pullRequestNumber = pullNumber ?? mergedReleasePr;
+      const payload = renderWebhookPayload(
+        core.getInput(INPUT_WEBHOOK_TEMPLATE) || DEFAULT_WEBHOOK_TEMPLATE,
+        {
+          repository: `${context.repo.owner}/${context.repo.repo}`,
+          sha: headRef,
+          pullRequest: pullRequestNumber ?? null,
+          pullRequestUrl: pullRequestNumber
+            ? `${context.serverUrl}/${context.repo.owner}/${context.repo.repo}/pull/${pullRequestNumber}`
+            : '',
+          bumps: getMatrix(detectLevel).include
+        }
+      );
+
+      core.setOutput(OUTPUT_WEBHOOK_PAYLOAD, payload);
+
+      if (webhookDryRun) {
+        core.info(`📣 Webhook dry run, not sending:\n${payload}`);
+      } else {
+        try {
+          const status = await sendWebhook(webhookUrl, payload, {
+            headers: webhookHeaders,
+            onRetry: (error, delay, attempt) =>
+              core.info(
+                `🔁 Retrying webhook in ${Math.ceil(delay / 1000)}s (attempt ${attempt}): ${error instanceof Error ? error.message : String(error)}`
+              )
+          });
+          core.info(`📣 Sent webhook notification (${status})`);
+        } catch (error) {
+          throw new Error(
+            `⛔️ Webhook notification failed: ${error instanceof Error ? error.message : String(error)}`
+          );
+        }
+      }
+    }
+
+    const anomalousPaths = Object.keys(anomalies);
+
+    if (failOnAnomalies && anomalousPaths.length > 0) {
+      throw new Error(
+        `⛔️ Manifest anomalies found in ${anomalousPaths.join(', ')}`
+      );
+    }
+
+    if (policyResults.failures.length > 0) {
+      throw new Error(
+        `⛔️ Path policies failed:\n${policyResults.failures.map((failure) => `- ${failure}`).join('\n')}`
+      );
+    }
+
+    const mismatchedPaths = Object.keys(mismatches);
+
+    if (verifyCommits === 'fail' && mismatchedPaths.length > 0) {
+      throw new Error(
+        `⛔️ Version bumps don't match conventional commits for ${mismatchedPaths.join(', ')}`
+      );
+    }
   } catch (error) {
     if (error instanceof Error) {
       core.setFailed(`Action failed: ${error.message}`);
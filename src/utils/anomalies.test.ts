@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { describeAnomaly, detectAnomalies } from './anomalies';
+import { analyzeManifestChanges } from './manifest';
+import { createCalverStrategy } from './version';
+
+describe('detectAnomalies', () => {
+  it('should report downgrades, removals and skipped majors separately', () => {
+    const analysis = analyzeManifestChanges(
+      {
+        'packages/down': '2.1.0',
+        'packages/gone': '1.0.0',
+        'packages/jump': '1.4.2',
+        'packages/major': '1.4.2',
+        'packages/minor': '1.0.0'
+      },
+      {
+        'packages/down': '2.0.9',
+        'packages/jump': '3.0.0',
+        'packages/major': '2.0.0',
+        'packages/minor': '1.1.0',
+        'packages/new': '5.0.0'
+      }
+    );
+
+    expect(detectAnomalies(analysis)).toEqual({
+      'packages/down': {
+        kind: 'downgrade',
+        oldVersion: '2.1.0',
+        newVersion: '2.0.9'
+      },
+      'packages/jump': {
+        kind: 'multi-major',
+        oldVersion: '1.4.2',
+        newVersion: '3.0.0'
+      },
+      'packages/gone': {
+        kind: 'removal',
+        oldVersion: '1.0.0',
+        newVersion: null
+      }
+    });
+  });
+
+  it('should detect skipped majors in prereleases', () => {
+    const analysis = analyzeManifestChanges(
+      { '.': '1.9.0' },
+      { '.': '3.0.0-rc.1' }
+    );
+
+    expect(detectAnomalies(analysis)['.'].kind).toBe('multi-major');
+  });
+
+  it('should use the major segment of the versioning strategy', () => {
+    const versioning = {
+      'services/*': createCalverStrategy('YYYY.MM.MICRO'),
+      'apps/*': createCalverStrategy('YY.MAJOR.MICRO')
+    };
+    const analysis = analyzeManifestChanges(
+      { 'services/api': '2022.1.0', 'apps/web': '24.1.0' },
+      { 'services/api': '2025.1.0', 'apps/web': '24.4.0' },
+      { versioning }
+    );
+
+    expect(detectAnomalies(analysis, versioning)).toEqual({
+      'apps/web': {
+        kind: 'multi-major',
+        oldVersion: '24.1.0',
+        newVersion: '24.4.0'
+      }
+    });
+  });
+});
+
+describe('describeAnomaly', () => {
+  it.each([
+    [
+      { kind: 'downgrade', oldVersion: '2.0.0', newVersion: '1.9.0' },
+      'foo was downgraded from 2.0.0 to 1.9.0'
+    ],
+    [
+      { kind: 'removal', oldVersion: '2.0.0', newVersion: null },
+      'foo was removed from the manifest (was 2.0.0)'
+    ],
+    [
+      { kind: 'multi-major', oldVersion: '1.0.0', newVersion: '3.0.0' },
+      'foo skipped a major version, from 1.0.0 to 3.0.0'
+    ]
+  ] as const)('should describe %j', (anomaly, expected) => {
+    expect(describeAnomaly('foo', anomaly)).toBe(expected);
+  });
+});
@@ -0,0 +1,69 @@
+import type { ManifestAnalysis } from './manifest';
+import { type VersioningConfig, getVersioningStrategy } from './version';
+
+export type AnomalyKind = 'downgrade' | 'removal' | 'multi-major';
+
+export interface Anomaly {
+  kind: AnomalyKind;
+  oldVersion: string;
+  newVersion: string | null;
+}
+
+/**
+ * Find manifest changes that usually mean a bad merge or a manual edit
+ * @param analysis - Manifest analysis
+ * @param versioning - Per-path versioning strategies, used to find the major segment (defaults to semver)
+ * @returns Record mapping each anomalous path to a `downgrade` (the version went down), `removal` (the path was removed) or `multi-major` (more than one major version was skipped) anomaly
+ */
+export function detectAnomalies(
+  analysis: ManifestAnalysis,
+  versioning: VersioningConfig = {}
+): Record<string, Anomaly> {
+  const anomalies: Record<string, Anomaly> = {};
+
+  for (const [path, { oldVersion, newVersion, bump }] of Object.entries(
+    analysis.changes
+  )) {
+    if (!oldVersion) {
+      continue;
+    }
+
+    if (bump === 'removed') {
+      anomalies[path] = { kind: 'removal', oldVersion, newVersion: null };
+    } else if (bump === 'downgraded') {
+      anomalies[path] = { kind: 'downgrade', oldVersion, newVersion };
+    } else if (newVersion) {
+      const strategy = getVersioningStrategy(versioning, path);
+      // Calver patterns without a MAJOR segment have no majors to skip
+      const majorIndex = strategy.levels.indexOf('major');
+
+      if (
+        majorIndex !== -1 &&
+        strategy.parse(newVersion).segments[majorIndex] -
+          strategy.parse(oldVersion).segments[majorIndex] >
+          1
+      ) {
+        anomalies[path] = { kind: 'multi-major', oldVersion, newVersion };
+      }
+    }
+  }
+
+  return anomalies;
+}
+
+/**
+ * Describe an anomaly for logs and annotations
+ * @param path - Package path
+ * @param anomaly - Anomaly found for the path
+ * @returns Human readable description
+ */
+export function describeAnomaly(path: string, anomaly: Anomaly): string {
+  switch (anomaly.kind) {
+    case 'downgrade':
+      return `${path} was downgraded from ${anomaly.oldVersion} to ${anomaly.newVersion}`;
+    case 'removal':
+      return `${path} was removed from the manifest (was ${anomaly.oldVersion})`;
+    default:
+      return `${path} skipped a major version, from ${anomaly.oldVersion} to ${anomaly.newVersion}`;
+  }
+}
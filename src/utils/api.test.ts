@@ -0,0 +1,207 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { createOctokit, getRetryDelay } from './api';
+import { getFileAtRef } from './files';
+import { respond, useTestServer } from './test-server';
+
+describe('getRetryDelay', () => {
+  const now = 1_700_000_000_000;
+  const rateLimited = (headers: Record<string, string>, message = '') => ({
+    status: 403,
+    message,
+    response: { headers }
+  });
+
+  it.each([
+    [{ status: 502 }, 0, 1000],
+    [{ status: 503 }, 2, 4000],
+    [{ status: 429, response: { headers: {} } }, 1, 2000],
+    [rateLimited({ 'retry-after': '5' }), 0, 5000],
+    [
+      rateLimited({
+        'x-ratelimit-remaining': '0',
+        'x-ratelimit-reset': String(now / 1000 + 30)
+      }),
+      0,
+      30_000
+    ],
+    [rateLimited({}, 'You have exceeded a secondary rate limit'), 0, 60_000]
+  ])('should wait after %j (attempt %i) for %ims', (error, attempt, delay) => {
+    expect(getRetryDelay(error, attempt, 1000, now)).toBe(delay);
+  });
+
+  it.each([
+    [{ status: 404 }],
+    [{ status: 422 }],
+    [
+      rateLimited(
+        { 'x-ratelimit-remaining': '4999' },
+        'Resource not accessible'
+      )
+    ],
+    ['String error'],
+    [null]
+  ])('should not retry %j', (error) => {
+    expect(getRetryDelay(error, 0, 1000, now)).toBeNull();
+  });
+});
+
+describe('createOctokit', () => {
+  const server = useTestServer('/api/v3');
+
+  const fileContent = (content: string) =>
+    respond(200, {
+      type: 'file',
+      size: content.length,
+      sha: 'file-sha',
+      encoding: 'base64',
+      content: Buffer.from(content).toString('base64')
+    });
+
+  beforeAll(() => {
+    vi.stubEnv('GITHUB_REPOSITORY', 'test-owner/test-repo');
+  });
+
+  afterAll(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('should send requests to the configured base URL', async () => {
+    server.handlers.push(fileContent('{}'));
+
+    const octokit = createOctokit('test-token', { baseUrl: server.url });
+
+    await expect(
+      getFileAtRef(octokit, '.release-please-manifest.json', 'head-sha')
+    ).resolves.toBe('{}');
+    expect(server.requests.map(({ url }) => url)).toEqual([
+      '/api/v3/repos/test-owner/test-repo/contents/.release-please-manifest.json?ref=head-sha'
+    ]);
+  });
+
+  it('should retry server errors with backoff', async () => {
+    const retries: [number, number][] = [];
+    server.handlers.push(
+      respond(502, { message: 'Bad Gateway' }),
+      respond(503, { message: 'Service Unavailable' }),
+      fileContent('{".": "1.0.0"}')
+    );
+
+    const octokit = createOctokit('test-token', {
+      baseUrl: server.url,
+      minDelay: 1,
+      onRetry: (_error, delay, attempt) => retries.push([delay, attempt])
+    });
+
+    await expect(
+      getFileAtRef(octokit, '.release-please-manifest.json', 'head-sha')
+    ).resolves.toBe('{".": "1.0.0"}');
+    expect(server.requests).toHaveLength(3);
+    expect(retries).toEqual([
+      [1, 1],
+      [2, 2]
+    ]);
+  });
+
+  it('should wait out secondary rate limits', async () => {
+    server.handlers.push(
+      respond(
+        403,
+        { message: 'You have exceeded a secondary rate limit' },
+        { 'retry-after': '0' }
+      ),
+      fileContent('{}')
+    );
+
+    const octokit = createOctokit('test-token', {
+      baseUrl: server.url,
+      minDelay: 1
+    });
+
+    await expect(
+      getFileAtRef(octokit, '.release-please-manifest.json', 'head-sha')
+    ).resolves.toBe('{}');
+    expect(server.requests).toHaveLength(2);
+  });
+
+  it('should give up after the configured number of retries', async () => {
+    server.handlers.push(
+      respond(500, { message: 'Server Error' }),
+      respond(500, { message: 'Server Error' })
+    );
+
+    const octokit = createOctokit('test-token', {
+      baseUrl: server.url,
+      retries: 1,
+      minDelay: 1
+    });
+
+    await expect(
+      getFileAtRef(octokit, '.release-please-manifest.json', 'head-sha')
+    ).rejects.toMatchObject({ status: 500 });
+    expect(server.requests).toHaveLength(2);
+  });
+
+  it('should not retry rate limits that reset after the longest delay', async () => {
+    server.handlers.push(
+      respond(
+        403,
+        { message: 'API rate limit exceeded' },
+        {
+          'x-ratelimit-remaining': '0',
+          'x-ratelimit-reset': String(Math.floor(Date.now() / 1000) + 3600)
+        }
+      )
+    );
+
+    const octokit = createOctokit('test-token', {
+      baseUrl: server.url,
+      minDelay: 1
+    });
+
+    await expect(
+      getFileAtRef(octokit, '.release-please-manifest.json', 'head-sha')
+    ).rejects.toMatchObject({ status: 403 });
+    expect(server.requests).toHaveLength(1);
+  });
+
+  it('should not retry missing files', async () => {
+    server.handlers.push(respond(404, { message: 'Not Found' }));
+
+    const octokit = createOctokit('test-token', {
+      baseUrl: server.url,
+      minDelay: 1
+    });
+
+    await expect(
+      getFileAtRef(octokit, 'CHANGELOG.md', 'head-sha')
+    ).resolves.toBeNull();
+    expect(server.requests).toHaveLength(1);
+  });
+
+  it('should read files over 1MB from the git blobs API', async () => {
+    const content = JSON.stringify({ '.': '1.0.0' });
+    server.handlers.push(
+      respond(200, {
+        type: 'file',
+        size: 2_000_000,
+        sha: 'large-sha',
+        encoding: 'none',
+        content: ''
+      }),
+      respond(200, {
+        sha: 'large-sha',
+        encoding: 'base64',
+        content: Buffer.from(content).toString('base64')
+      })
+    );
+
+    const octokit = createOctokit('test-token', { baseUrl: server.url });
+
+    await expect(
+      getFileAtRef(octokit, '.release-please-manifest.json', 'head-sha')
+    ).resolves.toBe(content);
+    expect(server.requests[1].url).toBe(
+      '/api/v3/repos/test-owner/test-repo/git/blobs/large-sha'
+    );
+  });
+});
@@ -0,0 +1,126 @@
+import { getOctokit } from '@actions/github';
+import type { GitHub } from '@actions/github/lib/utils';
+
+export interface ApiOptions {
+  baseUrl?: string;
+  retries?: number;
+  minDelay?: number;
+  maxDelay?: number;
+  sleep?: (ms: number) => Promise<void>;
+  onRetry?: (error: unknown, delay: number, attempt: number) => void;
+}
+
+interface ResponseError {
+  status?: number;
+  message?: string;
+  response?: { headers?: Record<string, string | number | undefined> };
+}
+
+const RETRYABLE_STATUSES = [500, 502, 503, 504];
+
+// GitHub asks clients to wait at least a minute after a secondary rate limit without retry-after
+const SECONDARY_RATE_LIMIT_DELAY = 60_000;
+
+/**
+ * Work out how long to wait before retrying a failed request
+ * @param error - Error thrown by the request
+ * @param attempt - Number of retries already made
+ * @param minDelay - Delay before the first retry of a server error, in milliseconds
+ * @param now - Current time, in milliseconds since the epoch
+ * @returns Delay in milliseconds, or null if the request shouldn't be retried
+ */
+export function getRetryDelay(
+  error: unknown,
+  attempt: number,
+  minDelay: number,
+  now: number = Date.now()
+): number | null {
+  if (!error || typeof error !== 'object') {
+    return null;
+  }
+
+  const { status, message = '', response } = error as ResponseError;
+  const headers = response?.headers ?? {};
+  const backoff = minDelay * 2 ** attempt;
+
+  if (status !== undefined && RETRYABLE_STATUSES.includes(status)) {
+    return backoff;
+  }
+
+  if (status !== 403 && status !== 429) {
+    return null;
+  }
+
+  if (headers['retry-after'] !== undefined) {
+    return Number(headers['retry-after']) * 1000;
+  }
+
+  if (
+    String(headers['x-ratelimit-remaining']) === '0' &&
+    headers['x-ratelimit-reset'] !== undefined
+  ) {
+    return Math.max(0, Number(headers['x-ratelimit-reset']) * 1000 - now);
+  }
+
+  if (/secondary rate limit/i.test(message)) {
+    return Math.max(SECONDARY_RATE_LIMIT_DELAY, backoff);
+  }
+
+  // Other 403s are permission errors
+  return status === 429 ? backoff : null;
+}
+
+/**
+ * Retry an API client's requests on server errors and rate limits
+ * @param octokit - GitHub API client
+ * @param options - Number of retries (defaults to 3), first backoff delay (defaults to 1s), longest delay to wait before giving up (defaults to 2m) and a callback for each retry
+ * @returns The same client
+ */
+export function withRetries(
+  octokit: InstanceType<typeof GitHub>,
+  options: ApiOptions = {}
+): InstanceType<typeof GitHub> {
+  const {
+    retries = 3,
+    minDelay = 1000,
+    maxDelay = 120_000,
+    sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms)),
+    onRetry
+  } = options;
+
+  octokit.hook.wrap('request', async (request, requestOptions) => {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await request(requestOptions);
+      } catch (error) {
+        const delay =
+          attempt < retries ? getRetryDelay(error, attempt, minDelay) : null;
+
+        if (delay === null || delay > maxDelay) {
+          throw error;
+        }
+
+        onRetry?.(error, delay, attempt + 1);
+        await sleep(delay);
+      }
+    }
+  });
+
+  return octokit;
+}
+
+/**
+ * Create a GitHub API client that retries failed requests
+ * @param token - GitHub token
+ * @param options - API base URL (defaults to `GITHUB_API_URL`, which is set on GitHub Enterprise Server runners) and retry options
+ * @returns GitHub API client
+ */
+export function createOctokit(
+  token: string,
+  options: ApiOptions = {}
+): InstanceType<typeof GitHub> {
+  return withRetries(
+    getOctokit(token, options.baseUrl ? { baseUrl: options.baseUrl } : {}),
+    options
+  );
+}
@@ -0,0 +1,131 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  extractBreakingChanges,
+  extractVersionSection,
+  getBreakingChanges
+} from './changelog';
+import { analyzeManifestChanges } from './manifest';
+
+const changelog = [
+  '# Changelog',
+  '',
+  '## [2.0.0](https://github.com/o/r/compare/foo-v1.3.0...foo-v2.0.0) (2024-02-01)',
+  '',
+  '',
+  '### ⚠ BREAKING CHANGES',
+  '',
+  '* **api:** remove the v1 endpoints',
+  '* rename `init` to `setup`',
+  '  so it matches the CLI',
+  '',
+  '### Features',
+  '',
+  '* add `setup` ([abc1234](https://github.com/o/r/commit/abc1234))',
+  '',
+  '## [1.3.0](https://github.com/o/r/compare/foo-v1.2.3...foo-v1.3.0) (2024-01-01)',
+  '',
+  '### ⚠ BREAKING CHANGES',
+  '',
+  '* should not be included'
+].join('\n');
+
+describe('extractVersionSection', () => {
+  it('should return the lines of a version section up to the next version', () => {
+    const section = extractVersionSection(changelog, '2.0.0');
+
+    expect(section).toContain('### Features');
+    expect(section).not.toContain('* should not be included');
+  });
+
+  it('should match plain version headings', () => {
+    expect(
+      extractVersionSection('## 1.0.0 (2024-01-01)\n\n* first release', '1.0.0')
+    ).toEqual(['', '* first release']);
+  });
+
+  it('should not match versions that only share a prefix', () => {
+    expect(
+      extractVersionSection('## [2.0.0-beta.1] (2024-01-01)', '2.0.0')
+    ).toBe(null);
+  });
+
+  it('should return null when the version has no section', () => {
+    expect(extractVersionSection(changelog, '3.0.0')).toBe(null);
+  });
+});
+
+describe('extractBreakingChanges', () => {
+  it('should return the breaking change entries with continuation lines joined', () => {
+    const section = extractVersionSection(changelog, '2.0.0') ?? [];
+
+    expect(extractBreakingChanges(section)).toEqual([
+      '**api:** remove the v1 endpoints',
+      'rename `init` to `setup` so it matches the CLI'
+    ]);
+  });
+
+  it('should return an empty array when there is no breaking changes heading', () => {
+    expect(extractBreakingChanges(['### Features', '', '* add bar'])).toEqual(
+      []
+    );
+  });
+});
+
+describe('getBreakingChanges', () => {
+  it('should read each detected path changelog at the given ref', async () => {
+    const source = {
+      readFile: vi.fn(async (filePath: string) =>
+        filePath === 'packages/foo/docs/CHANGES.md' ? changelog : null
+      ),
+      listCommitMessages: vi.fn(),
+      listFiles: vi.fn(),
+      listTags: vi.fn()
+    };
+    const analysis = analyzeManifestChanges(
+      { 'packages/foo': '1.3.0', 'packages/bar': '1.0.0', '.': '1.0.0' },
+      { 'packages/foo': '2.0.0', 'packages/bar': '2.0.0', '.': '1.1.0' }
+    );
+
+    const breakingChanges = await getBreakingChanges(
+      source,
+      analysis,
+      {
+        'packages/foo': {
+          oldVersion: '1.3.0',
+          newVersion: '2.0.0',
+          bump: 'major',
+          component: 'foo',
+          packageName: null,
+          tag: 'foo-v2.0.0',
+          releaseType: null,
+          changelogPath: 'packages/foo/docs/CHANGES.md'
+        }
+      },
+      'head-sha'
+    );
+
+    expect(source.readFile).toHaveBeenCalledWith(
+      'packages/foo/docs/CHANGES.md',
+      'head-sha'
+    );
+    expect(source.readFile).toHaveBeenCalledWith(
+      'packages/bar/CHANGELOG.md',
+      'head-sha'
+    );
+    expect(breakingChanges).toEqual({
+      'packages/foo': {
+        version: '2.0.0',
+        changelogPath: 'packages/foo/docs/CHANGES.md',
+        notes: [
+          '**api:** remove the v1 endpoints',
+          'rename `init` to `setup` so it matches the CLI'
+        ]
+      },
+      'packages/bar': {
+        version: '2.0.0',
+        changelogPath: 'packages/bar/CHANGELOG.md',
+        notes: null
+      }
+    });
+  });
+});
@@ -0,0 +1,129 @@
+import { type PackageDetails, getChangelogPath } from './config';
+import { type ContentClient, getFileAtRef } from './files';
+import type { ManifestAnalysis } from './manifest';
+
+export interface BreakingChanges {
+  version: string;
+  changelogPath: string;
+  notes: string[] | null;
+}
+
+const HEADING = /^(#{1,6})\s+(.*)$/;
+const BREAKING_HEADING = /^(?:⚠️?\s*)?BREAKING CHANGES?$/i;
+const LIST_ITEM = /^[*-]\s+(.*)$/;
+
+/**
+ * Escape a string for use in a regular expression
+ * @param value - Literal string
+ * @returns Escaped string
+ */
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Extract the section for a version from a release-please changelog
+ * @param changelog - Changelog content
+ * @param version - Version to find (e.g., "2.0.0")
+ * @returns Lines of the section below its heading, or null if there isn't one
+ */
+export function extractVersionSection(
+  changelog: string,
+  version: string
+): string[] | null {
+  // release-please headings look like "## [2.0.0](https://...) (2024-01-01)" or "## 2.0.0 (2024-01-01)"
+  const versionHeading = new RegExp(
+    `^\\[?v?${escapeRegExp(version)}\\]?(?:[\\s(]|$)`
+  );
+  const lines = changelog.split(/\r?\n/);
+  const start = lines.findIndex((line) => {
+    const heading = line.match(HEADING);
+    return heading !== null && versionHeading.test(heading[2]);
+  });
+
+  if (start === -1) {
+    return null;
+  }
+
+  const level = (lines[start].match(HEADING) as RegExpMatchArray)[1].length;
+  const section: string[] = [];
+
+  for (const line of lines.slice(start + 1)) {
+    const heading = line.match(HEADING);
+
+    if (heading && heading[1].length <= level) {
+      break;
+    }
+
+    section.push(line);
+  }
+
+  return section;
+}
+
+/**
+ * Extract the entries under the breaking changes heading of a changelog section
+ * @param section - Lines of a version section
+ * @returns Breaking change entries, with continuation lines joined
+ */
+export function extractBreakingChanges(section: string[]): string[] {
+  const notes: string[] = [];
+  let inBreaking = false;
+
+  for (const line of section) {
+    const heading = line.match(HEADING);
+
+    if (heading) {
+      inBreaking = BREAKING_HEADING.test(heading[2].trim());
+      continue;
+    }
+
+    if (!inBreaking || !line.trim()) {
+      continue;
+    }
+
+    const item = line.match(LIST_ITEM);
+
+    if (item) {
+      notes.push(item[1].trim());
+    } else if (notes.length > 0) {
+      notes[notes.length - 1] += ` ${line.trim()}`;
+    }
+  }
+
+  return notes;
+}
+
+/**
+ * Read the breaking change notes for each detected bump from its changelog
+ * @param client - GitHub API client or file source
+ * @param analysis - Manifest analysis
+ * @param packages - Resolved package details, used for changelog paths
+ * @param ref - Git ref to read changelogs from
+ * @returns Record mapping each detected path to its breaking changes, with null notes if the version's section is missing
+ */
+export async function getBreakingChanges(
+  client: ContentClient,
+  analysis: ManifestAnalysis,
+  packages: Record<string, PackageDetails>,
+  ref: string
+): Promise<Record<string, BreakingChanges>> {
+  const breakingChanges: Record<string, BreakingChanges> = {};
+
+  for (const [path, [, version]] of Object.entries(analysis.majorBumps)) {
+    const changelogPath =
+      packages[path]?.changelogPath ?? getChangelogPath({}, path);
+    const changelog = await getFileAtRef(client, changelogPath, ref);
+    const section = changelog
+      ? extractVersionSection(changelog, version)
+      : null;
+
+    breakingChanges[path] = {
+      version,
+      changelogPath,
+      notes: section ? extractBreakingChanges(section) : null
+    };
+  }
+
+  return breakingChanges;
+}
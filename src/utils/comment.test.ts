@@ -0,0 +1,177 @@
+import type { GitHub } from '@actions/github/lib/utils';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { COMMENT_MARKER, renderComment, syncComment } from './comment';
+import { analyzeManifestChanges } from './manifest';
+
+vi.mock('@actions/github', async (importOriginal) => {
+  const mod = await importOriginal<typeof import('@actions/github')>();
+
+  const context = {
+    repo: {
+      owner: 'test-owner',
+      repo: 'test-repo'
+    }
+  };
+
+  return {
+    ...mod,
+    context
+  };
+});
+
+const majorAnalysis = analyzeManifestChanges(
+  { 'packages/foo': '1.2.3', 'packages/bar': '1.0.0' },
+  { 'packages/foo': '2.0.0', 'packages/bar': '1.0.1' }
+);
+
+const noMajorAnalysis = analyzeManifestChanges(
+  { 'packages/foo': '1.2.3' },
+  { 'packages/foo': '1.3.0' }
+);
+
+const createOctokit = (comments: { id: number; body?: string }[]) => ({
+  paginate: vi.fn().mockResolvedValue(comments),
+  rest: {
+    issues: {
+      listComments: vi.fn(),
+      createComment: vi.fn().mockResolvedValue({}),
+      updateComment: vi.fn().mockResolvedValue({}),
+      deleteComment: vi.fn().mockResolvedValue({})
+    }
+  }
+});
+
+describe('renderComment', () => {
+  it('should render the marker, summary and bump table', () => {
+    const body = renderComment(majorAnalysis);
+
+    expect(body.startsWith(COMMENT_MARKER)).toBe(true);
+    expect(body).toContain('## 🚨 Major version bumps detected');
+    expect(body).toContain(
+      'This release includes major version bumps in 1 package.'
+    );
+    expect(body).toContain(
+      '| **`packages/foo`** | **1.2.3 → 2.0.0** | 🚨 **major** |'
+    );
+    expect(body).toContain('| `packages/bar` | 1.0.0 → 1.0.1 | patch |');
+  });
+
+  it('should include breaking change notes', () => {
+    const body = renderComment(
+      majorAnalysis,
+      {},
+      {
+        'packages/foo': {
+          version: '2.0.0',
+          changelogPath: 'packages/foo/CHANGELOG.md',
+          notes: ['remove the legacy API']
+        }
+      }
+    );
+
+    expect(body).toContain('### ⚠ Breaking changes');
+    expect(body).toContain('- remove the legacy API');
+  });
+});
+
+describe('syncComment', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should create a comment when majors are detected', async () => {
+    const octokit = createOctokit([{ id: 1, body: 'Unrelated comment' }]);
+
+    const result = await syncComment(
+      octokit as unknown as InstanceType<typeof GitHub>,
+      42,
+      majorAnalysis
+    );
+
+    expect(result).toBe('created');
+    expect(octokit.paginate).toHaveBeenCalledWith(
+      octokit.rest.issues.listComments,
+      {
+        owner: 'test-owner',
+        repo: 'test-repo',
+        issue_number: 42,
+        per_page: 100
+      }
+    );
+    expect(octokit.rest.issues.createComment).toHaveBeenCalledWith({
+      owner: 'test-owner',
+      repo: 'test-repo',
+      issue_number: 42,
+      body: renderComment(majorAnalysis)
+    });
+  });
+
+  it('should update an existing comment in place', async () => {
+    const octokit = createOctokit([
+      { id: 7, body: `${COMMENT_MARKER}\nOld content` }
+    ]);
+
+    const result = await syncComment(
+      octokit as unknown as InstanceType<typeof GitHub>,
+      42,
+      majorAnalysis
+    );
+
+    expect(result).toBe('updated');
+    expect(octokit.rest.issues.createComment).not.toHaveBeenCalled();
+    expect(octokit.rest.issues.updateComment).toHaveBeenCalledWith({
+      owner: 'test-owner',
+      repo: 'test-repo',
+      comment_id: 7,
+      body: renderComment(majorAnalysis)
+    });
+  });
+
+  it('should leave an up to date comment unchanged', async () => {
+    const octokit = createOctokit([
+      { id: 7, body: renderComment(majorAnalysis) }
+    ]);
+
+    const result = await syncComment(
+      octokit as unknown as InstanceType<typeof GitHub>,
+      42,
+      majorAnalysis
+    );
+
+    expect(result).toBe('unchanged');
+    expect(octokit.rest.issues.updateComment).not.toHaveBeenCalled();
+  });
+
+  it('should delete the comment when no majors remain', async () => {
+    const octokit = createOctokit([
+      { id: 7, body: `${COMMENT_MARKER}\nOld content` }
+    ]);
+
+    const result = await syncComment(
+      octokit as unknown as InstanceType<typeof GitHub>,
+      42,
+      noMajorAnalysis
+    );
+
+    expect(result).toBe('deleted');
+    expect(octokit.rest.issues.deleteComment).toHaveBeenCalledWith({
+      owner: 'test-owner',
+      repo: 'test-repo',
+      comment_id: 7
+    });
+  });
+
+  it('should do nothing when there are no majors and no comment', async () => {
+    const octokit = createOctokit([]);
+
+    const result = await syncComment(
+      octokit as unknown as InstanceType<typeof GitHub>,
+      42,
+      noMajorAnalysis
+    );
+
+    expect(result).toBe('skipped');
+    expect(octokit.rest.issues.createComment).not.toHaveBeenCalled();
+    expect(octokit.rest.issues.deleteComment).not.toHaveBeenCalled();
+  });
+});
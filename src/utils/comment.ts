@@ -0,0 +1,123 @@
+import { context } from '@actions/github';
+import type { GitHub } from '@actions/github/lib/utils';
+import type { BreakingChanges } from './changelog';
+import type { PackageDetails } from './config';
+import type { ManifestAnalysis } from './manifest';
+import { renderBreakingChanges, renderBumpTable } from './report';
+
+export const COMMENT_MARKER = '<!-- release-please-detect-major-changes -->';
+
+export type CommentResult =
+  | 'created'
+  | 'updated'
+  | 'unchanged'
+  | 'deleted'
+  | 'skipped';
+
+/**
+ * Render the body of the PR comment
+ * @param analysis - Manifest analysis
+ * @param packages - Resolved package details
+ * @param breakingChanges - Breaking changes read from changelogs
+ * @returns Markdown comment body, starting with the comment marker
+ */
+export function renderComment(
+  analysis: ManifestAnalysis,
+  packages: Record<string, PackageDetails> = {},
+  breakingChanges: Record<string, BreakingChanges> = {}
+): string {
+  const count = Object.keys(analysis.majorBumps).length;
+  const lines = [
+    COMMENT_MARKER,
+    '## 🚨 Major version bumps detected',
+    '',
+    `This release includes major version bumps in ${count} ${count === 1 ? 'package' : 'packages'}.`,
+    '',
+    renderBumpTable(analysis, packages)
+  ];
+  const breaking = renderBreakingChanges(breakingChanges);
+
+  if (breaking) {
+    lines.push('', breaking);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Find the marker-tagged comment on a pull request
+ * @param octokit - GitHub API client
+ * @param issueNumber - Pull request number
+ * @returns The comment ID and body, or null if there isn't one
+ */
+export async function findComment(
+  octokit: InstanceType<typeof GitHub>,
+  issueNumber: number
+): Promise<{ id: number; body: string } | null> {
+  const comments = await octokit.paginate(octokit.rest.issues.listComments, {
+    owner: context.repo.owner,
+    repo: context.repo.repo,
+    issue_number: issueNumber,
+    per_page: 100
+  });
+
+  const comment = comments.find(({ body }) => body?.includes(COMMENT_MARKER));
+
+  return comment ? { id: comment.id, body: comment.body ?? '' } : null;
+}
+
+/**
+ * Create, update or delete the marker-tagged comment so it reflects the analysis
+ * @param octokit - GitHub API client
+ * @param issueNumber - Pull request number
+ * @param analysis - Manifest analysis
+ * @param packages - Resolved package details
+ * @param breakingChanges - Breaking changes read from changelogs
+ * @returns What happened to the comment
+ */
+export async function syncComment(
+  octokit: InstanceType<typeof GitHub>,
+  issueNumber: number,
+  analysis: ManifestAnalysis,
+  packages: Record<string, PackageDetails> = {},
+  breakingChanges: Record<string, BreakingChanges> = {}
+): Promise<CommentResult> {
+  const existing = await findComment(octokit, issueNumber);
+
+  if (!analysis.hasMajorBump) {
+    if (!existing) {
+      return 'skipped';
+    }
+
+    await octokit.rest.issues.deleteComment({
+      owner: context.repo.owner,
+      repo: context.repo.repo,
+      comment_id: existing.id
+    });
+    return 'deleted';
+  }
+
+  const body = renderComment(analysis, packages, breakingChanges);
+
+  if (!existing) {
+    await octokit.rest.issues.createComment({
+      owner: context.repo.owner,
+      repo: context.repo.repo,
+      issue_number: issueNumber,
+      body
+    });
+    return 'created';
+  }
+
+  if (existing.body === body) {
+    return 'unchanged';
+  }
+
+  await octokit.rest.issues.updateComment({
+    owner: context.repo.owner,
+    repo: context.repo.repo,
+    comment_id: existing.id,
+    body
+  });
+  return 'updated';
+}
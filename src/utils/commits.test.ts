@@ -0,0 +1,216 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  getBumpMismatches,
+  getExpectedBump,
+  parseConventionalCommit,
+  verifyBumps
+} from './commits';
+import { analyzeManifestChanges } from './manifest';
+
+describe('parseConventionalCommit', () => {
+  it('should parse the type of a conventional commit', () => {
+    expect(parseConventionalCommit('feat(api): add endpoint')).toEqual({
+      type: 'feat',
+      breaking: false
+    });
+  });
+
+  it('should detect breaking changes marked with !', () => {
+    expect(parseConventionalCommit('refactor!: drop Node 16')).toEqual({
+      type: 'refactor',
+      breaking: true
+    });
+    expect(parseConventionalCommit('fix(api)!: change response')).toEqual({
+      type: 'fix',
+      breaking: true
+    });
+  });
+
+  it('should detect breaking change footers', () => {
+    expect(
+      parseConventionalCommit(
+        'fix: tidy config\n\nBREAKING CHANGE: the `legacy` option was removed'
+      )
+    ).toEqual({ type: 'fix', breaking: true });
+    expect(
+      parseConventionalCommit('feat: add x\n\nBREAKING-CHANGE: y')?.breaking
+    ).toBe(true);
+  });
+
+  it('should return null for non-conventional messages', () => {
+    expect(parseConventionalCommit('Merge branch main')).toBeNull();
+    expect(parseConventionalCommit('feat:missing space')).toBeNull();
+  });
+});
+
+describe('getExpectedBump', () => {
+  it('should expect a major bump for breaking changes', () => {
+    expect(getExpectedBump(['fix: a', 'feat!: b'])).toBe('major');
+  });
+
+  it('should expect a minor bump for features', () => {
+    expect(getExpectedBump(['fix: a', 'feat: b'])).toBe('minor');
+  });
+
+  it('should expect a patch bump for fixes and other releasable types', () => {
+    expect(getExpectedBump(['fix: a'])).toBe('patch');
+    expect(getExpectedBump(['perf: a', 'chore: b'])).toBe('patch');
+  });
+
+  it('should expect no bump when no commit triggers a release', () => {
+    expect(getExpectedBump(['chore: a', 'docs: b', 'not conventional'])).toBe(
+      'none'
+    );
+    expect(getExpectedBump([])).toBe('none');
+  });
+
+  it('should follow the pre-major settings for 0.x versions', () => {
+    const config = {
+      'bump-minor-pre-major': true,
+      'bump-patch-for-minor-pre-major': true
+    };
+
+    expect(getExpectedBump(['feat!: a'], '0.4.2', config)).toBe('minor');
+    expect(getExpectedBump(['feat: a'], '0.4.2', config)).toBe('patch');
+    expect(getExpectedBump(['feat!: a'], '0.4.2')).toBe('major');
+    expect(getExpectedBump(['feat!: a'], '1.4.2', config)).toBe('major');
+  });
+
+  it('should expect the bump to the newest Release-As version', () => {
+    expect(
+      getExpectedBump(
+        [
+          'chore: release 2.0.0\n\nRelease-As: 2.0.0',
+          'chore: release 1.5.0\n\nRelease-As: 1.5.0',
+          'feat: a'
+        ],
+        '1.4.2'
+      )
+    ).toBe('major');
+    expect(
+      getExpectedBump(['fix: a\n\nrelease-as: not-a-version'], '1.4.2')
+    ).toBe('patch');
+  });
+});
+
+describe('verifyBumps', () => {
+  it('should compare each bump with the commits since its release tag', async () => {
+    const listCommitMessages = vi.fn(async (path: string) => {
+      if (path === 'packages/foo') return ['chore: release', 'fix: a'];
+      if (path === 'packages/bar') return ['feat!: b'];
+      return null;
+    });
+    const analysis = analyzeManifestChanges(
+      {
+        'packages/foo': '1.2.3',
+        'packages/bar': '1.0.0',
+        'packages/baz': '0.1.0'
+      },
+      {
+        'packages/foo': '2.0.0',
+        'packages/bar': '2.0.0',
+        'packages/baz': '0.1.1',
+        'packages/new': '1.0.0'
+      }
+    );
+
+    const checks = await verifyBumps(
+      {
+        readFile: vi.fn(),
+        listCommitMessages,
+        listFiles: vi.fn(),
+        listTags: vi.fn()
+      },
+      analysis,
+      {
+        'include-component-in-tag': true,
+        packages: { 'packages/foo': { component: 'foo' } }
+      },
+      {
+        'packages/foo': {
+          oldVersion: '1.2.3',
+          newVersion: '2.0.0',
+          bump: 'major',
+          component: 'foo',
+          packageName: null,
+          tag: 'foo-v2.0.0',
+          releaseType: null,
+          changelogPath: 'packages/foo/CHANGELOG.md'
+        }
+      },
+      'head-sha'
+    );
+
+    expect(listCommitMessages).toHaveBeenCalledWith(
+      'packages/foo',
+      'foo-v1.2.3',
+      'head-sha'
+    );
+    expect(checks).toEqual({
+      'packages/foo': {
+        tag: 'foo-v1.2.3',
+        actual: 'major',
+        expected: 'patch',
+        commits: 2
+      },
+      'packages/bar': {
+        tag: 'v1.0.0',
+        actual: 'major',
+        expected: 'major',
+        commits: 1
+      },
+      'packages/baz': {
+        tag: 'v0.1.0',
+        actual: 'patch',
+        expected: null,
+        commits: 0
+      }
+    });
+    expect(getBumpMismatches(checks)).toEqual({
+      'packages/foo': checks['packages/foo']
+    });
+  });
+
+  it('should check 0.x bumps against strict semver and pre-major settings', async () => {
+    const listCommitMessages = vi.fn(async (path: string) =>
+      path === 'packages/foo' ? ['feat!: a'] : ['feat: b']
+    );
+    const analysis = analyzeManifestChanges(
+      { 'packages/foo': '0.4.2', 'packages/bar': '0.2.0' },
+      { 'packages/foo': '0.5.0', 'packages/bar': '0.3.0' },
+      { breakingSemantics: 'caret-compatible' }
+    );
+
+    const checks = await verifyBumps(
+      {
+        readFile: vi.fn(),
+        listCommitMessages,
+        listFiles: vi.fn(),
+        listTags: vi.fn()
+      },
+      analysis,
+      {
+        packages: { 'packages/foo': { 'bump-minor-pre-major': true } }
+      },
+      {},
+      'head-sha'
+    );
+
+    expect(analysis.changes['packages/bar'].bump).toBe('major');
+    expect(checks).toEqual({
+      'packages/foo': {
+        tag: 'v0.4.2',
+        actual: 'minor',
+        expected: 'minor',
+        commits: 1
+      },
+      'packages/bar': {
+        tag: 'v0.2.0',
+        actual: 'minor',
+        expected: 'minor',
+        commits: 1
+      }
+    });
+    expect(getBumpMismatches(checks)).toEqual({});
+  });
+});
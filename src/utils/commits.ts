@@ -0,0 +1,206 @@
+import {
+  type PackageDetails,
+  type ReleasePleaseConfig,
+  type ReleasePleasePackageConfig,
+  getPackageConfig,
+  getReleaseTag
+} from './config';
+import { type ContentClient, getCommitMessages } from './files';
+import type { BumpType, ManifestAnalysis } from './manifest';
+import {
+  type VersioningConfig,
+  getBumpType,
+  getVersioningStrategy
+} from './version';
+
+export type CommitVerificationMode = 'off' | 'report' | 'fail';
+
+export const COMMIT_VERIFICATION_MODES: CommitVerificationMode[] = [
+  'off',
+  'report',
+  'fail'
+];
+
+export type ExpectedBump = 'major' | 'minor' | 'patch' | 'none';
+
+export interface ConventionalCommit {
+  type: string;
+  breaking: boolean;
+}
+
+export interface BumpCheck {
+  tag: string;
+  actual: BumpType;
+  expected: ExpectedBump | null;
+  commits: number;
+}
+
+// Commit types that make release-please cut a patch release
+const PATCH_TYPES = ['fix', 'perf', 'revert', 'deps'];
+
+const VERIFIED_BUMPS: BumpType[] = ['major', 'minor', 'patch'];
+
+/**
+ * Parse the header and footers of a conventional commit message
+ * @param message - Full commit message
+ * @returns Commit type and whether it is a breaking change, or null if the message isn't a conventional commit
+ */
+export function parseConventionalCommit(
+  message: string
+): ConventionalCommit | null {
+  const header = message.match(/^(\w+)(?:\([^)]*\))?(!)?:\s/);
+
+  if (!header) {
+    return null;
+  }
+
+  return {
+    type: header[1].toLowerCase(),
+    breaking: Boolean(header[2]) || /^BREAKING[ -]CHANGE:\s/m.test(message)
+  };
+}
+
+/**
+ * Get the bump from a version to the version a `Release-As:` footer asks for
+ * @param messages - Commit messages, newest first
+ * @param oldVersion - Version being released from
+ * @returns Bump to the newest valid `Release-As` version, or null if no commit sets one
+ */
+function getReleaseAsBump(
+  messages: string[],
+  oldVersion: string
+): ExpectedBump | null {
+  for (const message of messages) {
+    const releaseAs = message.match(/^Release-As:\s*(\S+)/im);
+
+    if (!releaseAs) {
+      continue;
+    }
+
+    let bump: ReturnType<typeof getBumpType>;
+
+    try {
+      bump = getBumpType(oldVersion, releaseAs[1]);
+    } catch {
+      // Not a version release-please could release
+      continue;
+    }
+
+    return bump === 'major' || bump === 'minor' || bump === 'patch'
+      ? bump
+      : 'none';
+  }
+
+  return null;
+}
+
+/**
+ * Work out the bump release-please would make for a set of commits
+ * @param messages - Commit messages, newest first
+ * @param oldVersion - Version being released from, used for `Release-As:` footers and 0.x rules (or null to skip them)
+ * @param packageConfig - Effective package config, for `bump-minor-pre-major` and `bump-patch-for-minor-pre-major`
+ * @returns Expected bump, or "none" if no commit triggers a release
+ */
+export function getExpectedBump(
+  messages: string[],
+  oldVersion: string | null = null,
+  packageConfig: ReleasePleasePackageConfig = {}
+): ExpectedBump {
+  const releaseAs = oldVersion && getReleaseAsBump(messages, oldVersion);
+
+  if (releaseAs) {
+    return releaseAs;
+  }
+
+  const commits = messages
+    .map(parseConventionalCommit)
+    .filter((commit): commit is ConventionalCommit => commit !== null);
+  const preMajor = oldVersion !== null && /^v?0\./.test(oldVersion);
+
+  if (commits.some(({ breaking }) => breaking)) {
+    return preMajor && packageConfig['bump-minor-pre-major']
+      ? 'minor'
+      : 'major';
+  }
+
+  if (commits.some(({ type }) => type === 'feat')) {
+    return preMajor && packageConfig['bump-patch-for-minor-pre-major']
+      ? 'patch'
+      : 'minor';
+  }
+
+  if (commits.some(({ type }) => PATCH_TYPES.includes(type))) {
+    return 'patch';
+  }
+
+  return 'none';
+}
+
+/**
+ * Compare each path's manifest bump with the commits since its last release tag
+ * @param client - GitHub API client or file source
+ * @param analysis - Manifest analysis
+ * @param config - Release-please config (or null if there isn't one), used to build release tags and for pre-major bump settings
+ * @param packages - Resolved package details, used for components
+ * @param headRef - Git ref to list commits to
+ * @param versioning - Per-path versioning strategies (defaults to semver)
+ * @returns Record mapping each major, minor or patch bumped path to its check, with a null expected bump if the release tag doesn't exist
+ */
+export async function verifyBumps(
+  client: ContentClient,
+  analysis: ManifestAnalysis,
+  config: ReleasePleaseConfig | null,
+  packages: Record<string, PackageDetails>,
+  headRef: string,
+  versioning: VersioningConfig = {}
+): Promise<Record<string, BumpCheck>> {
+  const checks: Record<string, BumpCheck> = {};
+
+  for (const [path, change] of Object.entries(analysis.changes)) {
+    if (!change.oldVersion || !VERIFIED_BUMPS.includes(change.bump)) {
+      continue;
+    }
+
+    const packageConfig = getPackageConfig(config, path);
+    const tag = getReleaseTag(
+      packageConfig,
+      packages[path]?.component ?? null,
+      change.oldVersion
+    );
+    const messages = await getCommitMessages(client, path, tag, headRef);
+    // Release-please bumps by strict semver rules, so compare against the
+    // version change itself rather than a caret-compatible classification
+    const actual =
+      change.newVersion === null
+        ? change.bump
+        : (getBumpType(change.oldVersion, change.newVersion, {
+            strategy: getVersioningStrategy(versioning, path)
+          }) ?? change.bump);
+
+    checks[path] = {
+      tag,
+      actual,
+      expected: messages
+        ? getExpectedBump(messages, change.oldVersion, packageConfig)
+        : null,
+      commits: messages?.length ?? 0
+    };
+  }
+
+  return checks;
+}
+
+/**
+ * Get the checks where the manifest bump doesn't match the commits
+ * @param checks - Bump checks
+ * @returns Record mapping mismatched paths to their checks
+ */
+export function getBumpMismatches(
+  checks: Record<string, BumpCheck>
+): Record<string, BumpCheck> {
+  return Object.fromEntries(
+    Object.entries(checks).filter(
+      ([, { actual, expected }]) => expected !== null && expected !== actual
+    )
+  );
+}
@@ -0,0 +1,307 @@
+import type { GitHub } from '@actions/github/lib/utils';
+import { describe, expect, it, vi } from 'vitest';
+import {
+  getChangelogPath,
+  getConfigAtRef,
+  getPackageConfig,
+  getReleaseTag,
+  resolveConfigFiles,
+  resolvePackages
+} from './config';
+
+vi.mock('@actions/github', async (importOriginal) => {
+  const mod = await importOriginal<typeof import('@actions/github')>();
+
+  const context = {
+    repo: {
+      owner: 'test-owner',
+      repo: 'test-repo'
+    }
+  };
+
+  return {
+    ...mod,
+    context
+  };
+});
+
+describe('getConfigAtRef', () => {
+  it('should fetch and parse the config file from a specific ref', async () => {
+    const mockConfig = { packages: { '.': { 'release-type': 'node' } } };
+    const mockOctokit = {
+      rest: {
+        repos: {
+          getContent: vi.fn().mockResolvedValue({
+            data: {
+              content: Buffer.from(JSON.stringify(mockConfig)).toString(
+                'base64'
+              )
+            }
+          })
+        }
+      }
+    };
+
+    const result = await getConfigAtRef(
+      mockOctokit as unknown as InstanceType<typeof GitHub>,
+      'release-please-config.json',
+      'head-sha'
+    );
+
+    expect(mockOctokit.rest.repos.getContent).toHaveBeenCalledWith({
+      owner: 'test-owner',
+      repo: 'test-repo',
+      path: 'release-please-config.json',
+      ref: 'head-sha'
+    });
+    expect(result).toEqual(mockConfig);
+  });
+
+  it('should return null when the config file does not exist', async () => {
+    const mockOctokit = {
+      rest: {
+        repos: {
+          getContent: vi.fn().mockRejectedValue({ status: 404 })
+        }
+      }
+    };
+
+    const result = await getConfigAtRef(
+      mockOctokit as unknown as InstanceType<typeof GitHub>,
+      'release-please-config.json',
+      'head-sha'
+    );
+
+    expect(result).toBeNull();
+  });
+});
+
+describe('resolveConfigFiles', () => {
+  const manifests = [
+    'apps/.release-please-manifest.json',
+    'libs/.release-please-manifest.json'
+  ];
+
+  it('should use no config when none is given', () => {
+    expect(
+      resolveConfigFiles([], [], ['.release-please-manifest.json'])
+    ).toEqual({ '.release-please-manifest.json': null });
+  });
+
+  it('should use a single config as is for a single manifest', () => {
+    expect(
+      resolveConfigFiles(
+        ['release-please-config.json'],
+        ['.github/release-please-manifest.json'],
+        ['.github/release-please-manifest.json']
+      )
+    ).toEqual({
+      '.github/release-please-manifest.json': 'release-please-config.json'
+    });
+  });
+
+  it('should read a config file name next to each manifest', () => {
+    expect(
+      resolveConfigFiles(
+        ['release-please-config.json'],
+        ['*/.release-please-manifest.json'],
+        manifests
+      )
+    ).toEqual({
+      'apps/.release-please-manifest.json': 'apps/release-please-config.json',
+      'libs/.release-please-manifest.json': 'libs/release-please-config.json'
+    });
+  });
+
+  it('should pair configs with manifest entries in order', () => {
+    expect(
+      resolveConfigFiles(
+        ['config/apps.json', 'config/libs.json'],
+        manifests,
+        manifests
+      )
+    ).toEqual({
+      'apps/.release-please-manifest.json': 'config/apps.json',
+      'libs/.release-please-manifest.json': 'config/libs.json'
+    });
+  });
+
+  it('should throw when configs cannot be matched to manifests', () => {
+    const error =
+      '⛔️ config_file must list one config per manifest_file entry, or a single file name to read next to each manifest';
+
+    expect(() =>
+      resolveConfigFiles(
+        ['config/release-please-config.json'],
+        manifests,
+        manifests
+      )
+    ).toThrow(error);
+    expect(() =>
+      resolveConfigFiles(
+        ['config/apps.json', 'config/libs.json'],
+        ['*/.release-please-manifest.json'],
+        manifests
+      )
+    ).toThrow(error);
+  });
+});
+
+describe('getPackageConfig', () => {
+  it('should merge package settings over top-level defaults', () => {
+    const config = {
+      'release-type': 'node',
+      'include-v-in-tag': false,
+      packages: {
+        'packages/foo': { component: 'foo', 'include-v-in-tag': true }
+      }
+    };
+
+    expect(getPackageConfig(config, 'packages/foo')).toEqual({
+      'release-type': 'node',
+      'include-v-in-tag': true,
+      component: 'foo'
+    });
+    expect(getPackageConfig(config, 'packages/bar')).toEqual({
+      'release-type': 'node',
+      'include-v-in-tag': false
+    });
+  });
+
+  it('should return an empty config when there is no config file', () => {
+    expect(getPackageConfig(null, '.')).toEqual({});
+  });
+});
+
+describe('getReleaseTag', () => {
+  it.each([
+    [{}, 'foo', 'foo-v1.2.3'],
+    [{}, null, 'v1.2.3'],
+    [{ 'include-component-in-tag': false }, 'foo', 'v1.2.3'],
+    [{ 'include-v-in-tag': false }, 'foo', 'foo-1.2.3'],
+    [{ 'tag-separator': '@' }, 'foo', 'foo@v1.2.3'],
+    [{ 'include-v-in-tag': false }, null, '1.2.3']
+  ])(
+    'should build the tag for config %j and component %s',
+    (packageConfig, component, expected) => {
+      expect(getReleaseTag(packageConfig, component, '1.2.3')).toBe(expected);
+    }
+  );
+});
+
+describe('getChangelogPath', () => {
+  it.each([
+    [{}, '.', 'CHANGELOG.md'],
+    [{}, 'packages/foo', 'packages/foo/CHANGELOG.md'],
+    [
+      { 'changelog-path': 'docs/CHANGES.md' },
+      'packages/foo',
+      'packages/foo/docs/CHANGES.md'
+    ]
+  ])(
+    'should resolve the changelog for config %j and path %s',
+    (packageConfig, path, expected) => {
+      expect(getChangelogPath(packageConfig, path)).toBe(expected);
+    }
+  );
+});
+
+describe('resolvePackages', () => {
+  it('should resolve package details for each changed path', () => {
+    const config = {
+      'release-type': 'node',
+      packages: {
+        'packages/foo': { component: 'foo' },
+        'packages/bar': { 'package-name': '@scope/bar' },
+        'packages/baz': {
+          'package-name': 'baz',
+          'release-type': 'simple',
+          'include-component-in-tag': false,
+          'changelog-path': 'docs/CHANGES.md'
+        }
+      }
+    };
+
+    const result = resolvePackages(config, {
+      'packages/foo': {
+        oldVersion: '1.0.0',
+        newVersion: '2.0.0',
+        bump: 'major',
+        prerelease: null
+      },
+      'packages/bar': {
+        oldVersion: '1.0.0',
+        newVersion: '1.1.0',
+        bump: 'minor',
+        prerelease: null
+      },
+      'packages/baz': {
+        oldVersion: null,
+        newVersion: '0.1.0',
+        bump: 'added',
+        prerelease: null
+      },
+      'packages/old': {
+        oldVersion: '1.0.0',
+        newVersion: null,
+        bump: 'removed',
+        prerelease: null
+      }
+    });
+
+    expect(result).toEqual({
+      'packages/foo': {
+        oldVersion: '1.0.0',
+        newVersion: '2.0.0',
+        bump: 'major',
+        component: 'foo',
+        packageName: null,
+        tag: 'foo-v2.0.0',
+        releaseType: 'node',
+        changelogPath: 'packages/foo/CHANGELOG.md'
+      },
+      'packages/bar': {
+        oldVersion: '1.0.0',
+        newVersion: '1.1.0',
+        bump: 'minor',
+        component: 'bar',
+        packageName: '@scope/bar',
+        tag: 'bar-v1.1.0',
+        releaseType: 'node',
+        changelogPath: 'packages/bar/CHANGELOG.md'
+      },
+      'packages/baz': {
+        oldVersion: null,
+        newVersion: '0.1.0',
+        bump: 'added',
+        component: 'baz',
+        packageName: 'baz',
+        tag: 'v0.1.0',
+        releaseType: 'simple',
+        changelogPath: 'packages/baz/docs/CHANGES.md'
+      }
+    });
+  });
+
+  it('should fall back to default tags without a config', () => {
+    const result = resolvePackages(null, {
+      '.': {
+        oldVersion: '1.0.0',
+        newVersion: '2.0.0',
+        bump: 'major',
+        prerelease: null
+      }
+    });
+
+    expect(result['.']).toEqual({
+      oldVersion: '1.0.0',
+      newVersion: '2.0.0',
+      bump: 'major',
+      component: null,
+      packageName: null,
+      tag: 'v2.0.0',
+      releaseType: null,
+      changelogPath: 'CHANGELOG.md'
+    });
+  });
+});
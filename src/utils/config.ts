@@ -0,0 +1,199 @@
+import { type ContentClient, getFileAtRef } from './files';
+import { isGlob } from './glob';
+import type { ManifestChange } from './manifest';
+
+export interface ReleasePleasePackageConfig {
+  component?: string;
+  'package-name'?: string;
+  'release-type'?: string;
+  'include-component-in-tag'?: boolean;
+  'include-v-in-tag'?: boolean;
+  'tag-separator'?: string;
+  'changelog-path'?: string;
+  'bump-minor-pre-major'?: boolean;
+  'bump-patch-for-minor-pre-major'?: boolean;
+}
+
+export interface ReleasePleaseConfig extends ReleasePleasePackageConfig {
+  'pull-request-title-pattern'?: string;
+  'group-pull-request-title-pattern'?: string;
+  packages?: Record<string, ReleasePleasePackageConfig>;
+}
+
+export interface PackageDetails {
+  oldVersion: string | null;
+  newVersion: string;
+  bump: ManifestChange['bump'];
+  component: string | null;
+  packageName: string | null;
+  tag: string;
+  releaseType: string | null;
+  changelogPath: string;
+}
+
+/**
+ * Get the content of the release-please config file from a specific ref
+ * @param client - GitHub API client or file source
+ * @param configPath - Path to the config file
+ * @param ref - Git ref (commit SHA, branch name, etc.)
+ * @returns Parsed config object or null if file doesn't exist
+ */
+export async function getConfigAtRef(
+  client: ContentClient,
+  configPath: string,
+  ref: string
+): Promise<ReleasePleaseConfig | null> {
+  const content = await getFileAtRef(client, configPath, ref);
+
+  return content ? (JSON.parse(content) as ReleasePleaseConfig) : null;
+}
+
+/**
+ * Work out which release-please config file belongs to each manifest
+ * @param configFiles - Config file entries: none, one per manifest entry (paired in order), or a single file used as is for one manifest and read from each manifest's directory for several
+ * @param manifestPatterns - Manifest file entries, which may be globs
+ * @param manifestFiles - Manifest files matched by the entries
+ * @returns Record mapping each manifest file to its config path, or null when there is no config
+ * @throws Error if the config files can't be matched to the manifests
+ */
+export function resolveConfigFiles(
+  configFiles: string[],
+  manifestPatterns: string[],
+  manifestFiles: string[]
+): Record<string, string | null> {
+  const configPaths: Record<string, string | null> = {};
+
+  if (configFiles.length === 0) {
+    for (const manifestFile of manifestFiles) {
+      configPaths[manifestFile] = null;
+    }
+  } else if (configFiles.length === 1 && manifestFiles.length === 1) {
+    configPaths[manifestFiles[0]] = configFiles[0];
+  } else if (configFiles.length === 1 && !configFiles[0].includes('/')) {
+    for (const manifestFile of manifestFiles) {
+      configPaths[manifestFile] =
+        `${manifestFile.slice(0, manifestFile.lastIndexOf('/') + 1)}${configFiles[0]}`;
+    }
+  } else if (
+    configFiles.length === manifestPatterns.length &&
+    !manifestPatterns.some(isGlob)
+  ) {
+    manifestPatterns.forEach((manifestFile, index) => {
+      configPaths[manifestFile] = configFiles[index];
+    });
+  } else {
+    throw new Error(
+      '⛔️ config_file must list one config per manifest_file entry, or a single file name to read next to each manifest'
+    );
+  }
+
+  return configPaths;
+}
+
+/**
+ * Get the effective config for a package, with package settings taking precedence over top-level defaults
+ * @param config - Release-please config (or null if there isn't one)
+ * @param path - Package path from the manifest
+ * @returns Merged package config
+ */
+export function getPackageConfig(
+  config: ReleasePleaseConfig | null,
+  path: string
+): ReleasePleasePackageConfig {
+  if (!config) {
+    return {};
+  }
+
+  const { packages, ...defaults } = config;
+
+  return { ...defaults, ...packages?.[path] };
+}
+
+/**
+ * Get the component release-please uses for a package
+ * @param packageConfig - Effective package config
+ * @returns The configured component, else the package name without its npm scope, else null
+ */
+export function getComponent(
+  packageConfig: ReleasePleasePackageConfig
+): string | null {
+  // release-please drops the npm scope when deriving a component from the package name
+  return (
+    packageConfig.component ??
+    packageConfig['package-name']?.replace(/^@[^/]+\//, '') ??
+    null
+  );
+}
+
+/**
+ * Build the tag release-please will create for a package version
+ * @param packageConfig - Effective package config
+ * @param component - Package component name
+ * @param version - Version being released
+ * @returns Tag name (e.g., "v1.2.3" or "foo-v1.2.3")
+ */
+export function getReleaseTag(
+  packageConfig: ReleasePleasePackageConfig,
+  component: string | null,
+  version: string
+): string {
+  const includeComponent = packageConfig['include-component-in-tag'] ?? true;
+  const includeV = packageConfig['include-v-in-tag'] ?? true;
+  const separator = packageConfig['tag-separator'] ?? '-';
+  const versionTag = `${includeV ? 'v' : ''}${version}`;
+
+  return includeComponent && component
+    ? `${component}${separator}${versionTag}`
+    : versionTag;
+}
+
+/**
+ * Get the repository path of a package's changelog
+ * @param packageConfig - Effective package config
+ * @param path - Package path from the manifest
+ * @returns Changelog path relative to the repository root (e.g., "packages/foo/CHANGELOG.md")
+ */
+export function getChangelogPath(
+  packageConfig: ReleasePleasePackageConfig,
+  path: string
+): string {
+  const changelog = packageConfig['changelog-path'] ?? 'CHANGELOG.md';
+
+  return path === '.' ? changelog : `${path}/${changelog}`;
+}
+
+/**
+ * Resolve component, package name, release tag, release type and changelog path for each changed path
+ * @param config - Release-please config (or null if there isn't one)
+ * @param changes - Changed paths from the manifest analysis
+ * @returns Record mapping each path with a new version to its package details
+ */
+export function resolvePackages(
+  config: ReleasePleaseConfig | null,
+  changes: Record<string, ManifestChange>
+): Record<string, PackageDetails> {
+  const packages: Record<string, PackageDetails> = {};
+
+  for (const [path, change] of Object.entries(changes)) {
+    if (!change.newVersion) {
+      continue;
+    }
+
+    const packageConfig = getPackageConfig(config, path);
+    const packageName = packageConfig['package-name'] ?? null;
+    const component = getComponent(packageConfig);
+
+    packages[path] = {
+      oldVersion: change.oldVersion,
+      newVersion: change.newVersion,
+      bump: change.bump,
+      component,
+      packageName,
+      tag: getReleaseTag(packageConfig, component, change.newVersion),
+      releaseType: packageConfig['release-type'] ?? null,
+      changelogPath: getChangelogPath(packageConfig, path)
+    };
+  }
+
+  return packages;
+}
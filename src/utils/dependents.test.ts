@@ -0,0 +1,165 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  type WorkspacePackage,
+  findDependents,
+  getWorkspacePackages,
+  rangeAdmits
+} from './dependents';
+import { analyzeManifestChanges } from './manifest';
+
+describe('getWorkspacePackages', () => {
+  it('should read package.json at each path and merge dependency ranges', async () => {
+    const files: Record<string, string> = {
+      'package.json': JSON.stringify({ name: 'root', private: true }),
+      'packages/core/package.json': JSON.stringify({ name: '@acme/core' }),
+      'packages/app/package.json': JSON.stringify({
+        name: '@acme/app',
+        dependencies: { '@acme/core': '^1.0.0' },
+        devDependencies: { vitest: '^3.0.0' },
+        peerDependencies: { react: '>=18' }
+      })
+    };
+    const source = {
+      readFile: vi.fn(async (filePath: string) => files[filePath] ?? null),
+      listCommitMessages: vi.fn(),
+      listFiles: vi.fn(),
+      listTags: vi.fn()
+    };
+
+    const packages = await getWorkspacePackages(
+      source,
+      ['.', 'packages/core', 'packages/app', 'packages/go-service'],
+      'head-sha'
+    );
+
+    expect(source.readFile).toHaveBeenCalledWith(
+      'packages/core/package.json',
+      'head-sha'
+    );
+    expect(packages).toEqual([
+      { path: '.', name: 'root', dependencies: {} },
+      { path: 'packages/core', name: '@acme/core', dependencies: {} },
+      {
+        path: 'packages/app',
+        name: '@acme/app',
+        dependencies: {
+          '@acme/core': '^1.0.0',
+          vitest: '^3.0.0',
+          react: '>=18'
+        }
+      }
+    ]);
+  });
+});
+
+describe('rangeAdmits', () => {
+  it('should check semver ranges', () => {
+    expect(rangeAdmits('^1.0.0', '2.0.0')).toBe(false);
+    expect(rangeAdmits('^1.0.0 || ^2.0.0', '2.0.0')).toBe(true);
+    expect(rangeAdmits('*', '2.0.0-beta.1')).toBe(true);
+  });
+
+  it('should handle workspace ranges', () => {
+    expect(rangeAdmits('workspace:*', '2.0.0')).toBe(true);
+    expect(rangeAdmits('workspace:^', '2.0.0')).toBe(true);
+    expect(rangeAdmits('workspace:^1.0.0', '2.0.0')).toBe(false);
+  });
+
+  it('should return null for non-semver ranges', () => {
+    expect(rangeAdmits('file:../core', '2.0.0')).toBeNull();
+  });
+});
+
+describe('findDependents', () => {
+  const packages: WorkspacePackage[] = [
+    { path: 'packages/core', name: '@acme/core', dependencies: {} },
+    {
+      path: 'packages/ui',
+      name: '@acme/ui',
+      dependencies: { '@acme/core': 'workspace:^' }
+    },
+    {
+      path: 'packages/cli',
+      name: '@acme/cli',
+      dependencies: { '@acme/core': '^1.0.0' }
+    },
+    {
+      path: 'apps/web',
+      name: 'web',
+      dependencies: { '@acme/ui': '^3.0.0', react: '^18.0.0' }
+    },
+    {
+      path: 'apps/docs',
+      name: 'docs',
+      dependencies: { web: '*', '@acme/ui': '^3.0.0' }
+    },
+    { path: 'apps/other', name: 'other', dependencies: { react: '^18.0.0' } }
+  ];
+
+  it('should find direct and transitive dependents of detected bumps', () => {
+    const analysis = analyzeManifestChanges(
+      { 'packages/core': '1.4.0', 'packages/ui': '3.0.0' },
+      { 'packages/core': '2.0.0', 'packages/ui': '3.1.0' }
+    );
+
+    expect(findDependents(packages, analysis)).toEqual({
+      'packages/core': [
+        {
+          path: 'packages/ui',
+          name: '@acme/ui',
+          direct: true,
+          range: 'workspace:^',
+          satisfied: true
+        },
+        {
+          path: 'packages/cli',
+          name: '@acme/cli',
+          direct: true,
+          range: '^1.0.0',
+          satisfied: false
+        },
+        {
+          path: 'apps/web',
+          name: 'web',
+          direct: false,
+          range: null,
+          satisfied: null
+        },
+        {
+          path: 'apps/docs',
+          name: 'docs',
+          direct: false,
+          range: null,
+          satisfied: null
+        }
+      ]
+    });
+  });
+
+  it('should handle dependency cycles', () => {
+    const analysis = analyzeManifestChanges({ a: '1.0.0' }, { a: '2.0.0' });
+
+    expect(
+      findDependents(
+        [
+          { path: 'a', name: 'a', dependencies: { b: '^1.0.0' } },
+          { path: 'b', name: 'b', dependencies: { a: '^2.0.0' } }
+        ],
+        analysis
+      )
+    ).toEqual({
+      a: [
+        { path: 'b', name: 'b', direct: true, range: '^2.0.0', satisfied: true }
+      ]
+    });
+  });
+
+  it('should skip detected paths that are not workspace packages', () => {
+    const analysis = analyzeManifestChanges(
+      { 'services/go': '1.0.0' },
+      { 'services/go': '2.0.0' }
+    );
+
+    expect(findDependents(packages, analysis)).toEqual({});
+  });
+});
@@ -0,0 +1,153 @@
+import semver from 'semver';
+import { type ContentClient, getFileAtRef } from './files';
+import type { ManifestAnalysis } from './manifest';
+
+export interface WorkspacePackage {
+  path: string;
+  name: string;
+  dependencies: Record<string, string>;
+}
+
+export interface Dependent {
+  path: string;
+  name: string;
+  direct: boolean;
+  range: string | null;
+  satisfied: boolean | null;
+}
+
+interface PackageJson {
+  name?: string;
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+  peerDependencies?: Record<string, string>;
+  optionalDependencies?: Record<string, string>;
+}
+
+/**
+ * Read the package.json of each manifest path
+ * @param client - GitHub API client or file source
+ * @param paths - Package paths from the manifest
+ * @param ref - Git ref to read package.json files from
+ * @returns Named packages with all of their dependency ranges merged, skipping paths without a package.json
+ */
+export async function getWorkspacePackages(
+  client: ContentClient,
+  paths: string[],
+  ref: string
+): Promise<WorkspacePackage[]> {
+  const packages: WorkspacePackage[] = [];
+
+  for (const path of paths) {
+    const content = await getFileAtRef(
+      client,
+      path === '.' ? 'package.json' : `${path}/package.json`,
+      ref
+    );
+
+    if (!content) {
+      continue;
+    }
+
+    const packageJson = JSON.parse(content) as PackageJson;
+
+    if (!packageJson.name) {
+      continue;
+    }
+
+    packages.push({
+      path,
+      name: packageJson.name,
+      dependencies: {
+        ...packageJson.devDependencies,
+        ...packageJson.optionalDependencies,
+        ...packageJson.peerDependencies,
+        ...packageJson.dependencies
+      }
+    });
+  }
+
+  return packages;
+}
+
+/**
+ * Check whether a declared dependency range admits a version
+ * @param range - Declared range, including `workspace:` ranges
+ * @param version - Version to check
+ * @returns true or false, or null if the range isn't a semver range (e.g., `file:` or `link:`)
+ */
+export function rangeAdmits(range: string, version: string): boolean | null {
+  if (range.startsWith('workspace:')) {
+    const workspaceRange = range.slice('workspace:'.length);
+
+    // Bare workspace ranges always resolve to the package's current version
+    if (['*', '^', '~', ''].includes(workspaceRange)) {
+      return true;
+    }
+
+    return rangeAdmits(workspaceRange, version);
+  }
+
+  if (!semver.validRange(range)) {
+    return null;
+  }
+
+  return semver.satisfies(version, range, { includePrerelease: true });
+}
+
+/**
+ * Find the workspace packages that depend on each detected bump, directly or transitively
+ * @param packages - Workspace packages
+ * @param analysis - Manifest analysis
+ * @returns Record mapping each detected path to its dependents, nearest first
+ */
+export function findDependents(
+  packages: WorkspacePackage[],
+  analysis: ManifestAnalysis
+): Record<string, Dependent[]> {
+  const dependents: Record<string, Dependent[]> = {};
+
+  for (const [path, [, newVersion]] of Object.entries(analysis.majorBumps)) {
+    const bumped = packages.find((pkg) => pkg.path === path);
+
+    if (!bumped) {
+      continue;
+    }
+
+    const found: Dependent[] = [];
+    const visited = new Set([bumped.name]);
+    let queue = [bumped.name];
+
+    while (queue.length > 0) {
+      const next: string[] = [];
+
+      for (const pkg of packages) {
+        if (visited.has(pkg.name)) {
+          continue;
+        }
+
+        if (!queue.some((name) => name in pkg.dependencies)) {
+          continue;
+        }
+
+        const range = pkg.dependencies[bumped.name] ?? null;
+
+        visited.add(pkg.name);
+        next.push(pkg.name);
+        found.push({
+          path: pkg.path,
+          name: pkg.name,
+          direct: range !== null,
+          range,
+          satisfied: range === null ? null : rangeAdmits(range, newVersion)
+        });
+      }
+
+      queue = next;
+    }
+
+    dependents[path] = found;
+  }
+
+  return dependents;
+}
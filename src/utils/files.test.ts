@@ -0,0 +1,409 @@
+import { execFileSync } from 'node:child_process';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { GitHub } from '@actions/github/lib/utils';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import {
+  createGitSource,
+  getCommitMessages,
+  getFileAtRef,
+  listFilesAtRef,
+  listTags
+} from './files';
+
+vi.mock('@actions/github', async (importOriginal) => {
+  const mod = await importOriginal<typeof import('@actions/github')>();
+
+  const context = {
+    repo: {
+      owner: 'test-owner',
+      repo: 'test-repo'
+    }
+  };
+
+  return {
+    ...mod,
+    context
+  };
+});
+
+describe('getFileAtRef', () => {
+  it('should fetch and decode a file from a specific ref', async () => {
+    const mockOctokit = {
+      rest: {
+        repos: {
+          getContent: vi.fn().mockResolvedValue({
+            data: {
+              content: Buffer.from('# Changelog\n').toString('base64')
+            }
+          })
+        }
+      }
+    };
+
+    const result = await getFileAtRef(
+      mockOctokit as unknown as InstanceType<typeof GitHub>,
+      'CHANGELOG.md',
+      'abc123'
+    );
+
+    expect(mockOctokit.rest.repos.getContent).toHaveBeenCalledWith({
+      owner: 'test-owner',
+      repo: 'test-repo',
+      path: 'CHANGELOG.md',
+      ref: 'abc123'
+    });
+    expect(result).toBe('# Changelog\n');
+  });
+
+  it('should return null when file returns 404', async () => {
+    const mockOctokit = {
+      rest: {
+        repos: {
+          getContent: vi.fn().mockRejectedValue({ status: 404 })
+        }
+      }
+    };
+
+    const result = await getFileAtRef(
+      mockOctokit as unknown as InstanceType<typeof GitHub>,
+      'CHANGELOG.md',
+      'abc123'
+    );
+
+    expect(result).toBeNull();
+  });
+
+  it('should throw error for non-404 errors', async () => {
+    const mockOctokit = {
+      rest: {
+        repos: {
+          getContent: vi.fn().mockRejectedValue({ status: 500 })
+        }
+      }
+    };
+
+    await expect(
+      getFileAtRef(
+        mockOctokit as unknown as InstanceType<typeof GitHub>,
+        'CHANGELOG.md',
+        'abc123'
+      )
+    ).rejects.toEqual({ status: 500 });
+  });
+});
+
+describe('getCommitMessages', () => {
+  const createCommitsOctokit = (
+    range: { sha: string; message: string; date: string }[],
+    history: { sha: string; message: string }[]
+  ) => {
+    const mockOctokit = {
+      paginate: vi.fn(async (method, _params, mapFn) =>
+        mapFn(
+          method === mockOctokit.rest.repos.compareCommitsWithBasehead
+            ? {
+                data: {
+                  commits: range.map(({ sha, message, date }) => ({
+                    sha,
+                    commit: { message, committer: { date } }
+                  }))
+                }
+              }
+            : {
+                data: history.map(({ sha, message }) => ({
+                  sha,
+                  commit: { message }
+                }))
+              }
+        )
+      ),
+      rest: {
+        repos: {
+          getCommit: vi.fn().mockResolvedValue({ data: { sha: 'tag-sha' } }),
+          compareCommitsWithBasehead: vi.fn(),
+          listCommits: vi.fn()
+        }
+      }
+    };
+
+    return mockOctokit;
+  };
+
+  it('should list commit messages on a path between the refs', async () => {
+    const mockOctokit = createCommitsOctokit(
+      [
+        { sha: 'c1', message: 'fix: b', date: '2024-01-02T00:00:00Z' },
+        { sha: 'c2', message: 'docs: other', date: '2024-01-03T00:00:00Z' },
+        { sha: 'c3', message: 'feat: c', date: '2024-01-04T00:00:00Z' }
+      ],
+      [
+        { sha: 'c3', message: 'feat: c' },
+        { sha: 'c1', message: 'fix: b' },
+        // The tagged merge commit isn't in the path-filtered history
+        { sha: 'c0', message: 'feat!: before the release' }
+      ]
+    );
+
+    await expect(
+      getCommitMessages(
+        mockOctokit as unknown as InstanceType<typeof GitHub>,
+        'packages/foo',
+        'foo-v1.0.0',
+        'head-sha'
+      )
+    ).resolves.toEqual(['feat: c', 'fix: b']);
+    expect(mockOctokit.rest.repos.getCommit).toHaveBeenCalledWith({
+      owner: 'test-owner',
+      repo: 'test-repo',
+      ref: 'foo-v1.0.0'
+    });
+    expect(mockOctokit.paginate).toHaveBeenCalledWith(
+      mockOctokit.rest.repos.compareCommitsWithBasehead,
+      {
+        owner: 'test-owner',
+        repo: 'test-repo',
+        basehead: 'tag-sha...head-sha',
+        per_page: 100
+      },
+      expect.any(Function)
+    );
+    expect(mockOctokit.paginate).toHaveBeenCalledWith(
+      mockOctokit.rest.repos.listCommits,
+      {
+        owner: 'test-owner',
+        repo: 'test-repo',
+        sha: 'head-sha',
+        path: 'packages/foo',
+        since: '2024-01-02T00:00:00Z',
+        per_page: 100
+      },
+      expect.any(Function)
+    );
+  });
+
+  it('should list every commit between the refs for the root path', async () => {
+    const mockOctokit = createCommitsOctokit(
+      [
+        { sha: 'c1', message: 'fix: b', date: '2024-01-02T00:00:00Z' },
+        { sha: 'c2', message: 'feat: c', date: '2024-01-03T00:00:00Z' }
+      ],
+      []
+    );
+
+    await expect(
+      getCommitMessages(
+        mockOctokit as unknown as InstanceType<typeof GitHub>,
+        '.',
+        'v1.0.0',
+        'head-sha'
+      )
+    ).resolves.toEqual(['feat: c', 'fix: b']);
+    expect(mockOctokit.paginate).toHaveBeenCalledTimes(1);
+  });
+
+  it('should return null when the from ref does not exist', async () => {
+    const mockOctokit = {
+      paginate: vi.fn(),
+      rest: {
+        repos: {
+          getCommit: vi.fn().mockRejectedValue({ status: 422 })
+        }
+      }
+    };
+
+    await expect(
+      getCommitMessages(
+        mockOctokit as unknown as InstanceType<typeof GitHub>,
+        '.',
+        'v1.0.0',
+        'head-sha'
+      )
+    ).resolves.toBeNull();
+    expect(mockOctokit.paginate).not.toHaveBeenCalled();
+  });
+});
+
+describe('listFilesAtRef', () => {
+  it('should list the blobs in the tree at a ref', async () => {
+    const mockOctokit = {
+      rest: {
+        git: {
+          getTree: vi.fn().mockResolvedValue({
+            data: {
+              tree: [
+                { path: 'apps', type: 'tree' },
+                { path: 'apps/.release-please-manifest.json', type: 'blob' },
+                { path: 'README.md', type: 'blob' }
+              ]
+            }
+          })
+        }
+      }
+    };
+
+    await expect(
+      listFilesAtRef(
+        mockOctokit as unknown as InstanceType<typeof GitHub>,
+        'head-sha'
+      )
+    ).resolves.toEqual(['apps/.release-please-manifest.json', 'README.md']);
+    expect(mockOctokit.rest.git.getTree).toHaveBeenCalledWith({
+      owner: 'test-owner',
+      repo: 'test-repo',
+      tree_sha: 'head-sha',
+      recursive: 'true'
+    });
+  });
+
+  it('should fail when the tree is truncated', async () => {
+    const mockOctokit = {
+      rest: {
+        git: {
+          getTree: vi.fn().mockResolvedValue({
+            data: {
+              truncated: true,
+              tree: [{ path: 'README.md', type: 'blob' }]
+            }
+          })
+        }
+      }
+    };
+
+    await expect(
+      listFilesAtRef(
+        mockOctokit as unknown as InstanceType<typeof GitHub>,
+        'head-sha'
+      )
+    ).rejects.toThrow(
+      '⛔️ The file tree at head-sha is too large for the GitHub API to list, set source to git or list manifest_file paths without globs'
+    );
+  });
+});
+
+describe('listTags', () => {
+  it('should list every tag in the repository', async () => {
+    const mockOctokit = {
+      paginate: vi.fn(async (_method, _params, mapFn) =>
+        mapFn({ data: [{ name: 'v1.0.0' }, { name: 'foo-v2.0.0' }] })
+      ),
+      rest: {
+        repos: {
+          listTags: vi.fn()
+        }
+      }
+    };
+
+    await expect(
+      listTags(mockOctokit as unknown as InstanceType<typeof GitHub>)
+    ).resolves.toEqual(['v1.0.0', 'foo-v2.0.0']);
+    expect(mockOctokit.paginate).toHaveBeenCalledWith(
+      mockOctokit.rest.repos.listTags,
+      { owner: 'test-owner', repo: 'test-repo', per_page: 100 },
+      expect.any(Function)
+    );
+  });
+});
+
+describe('createGitSource', () => {
+  let repoDir: string;
+
+  const runGit = (...args: string[]) =>
+    execFileSync('git', args, { cwd: repoDir, encoding: 'utf-8' }).trim();
+
+  beforeAll(() => {
+    repoDir = mkdtempSync(join(tmpdir(), 'detect-major-changes-'));
+    runGit('init', '--quiet');
+    runGit('config', 'user.email', 'test@example.com');
+    runGit('config', 'user.name', 'Test');
+    writeFileSync(join(repoDir, 'manifest.json'), '{".":"1.0.0"}');
+    runGit('add', '.');
+    runGit('commit', '--quiet', '-m', 'initial');
+    runGit('tag', 'v1.0.0');
+    mkdirSync(join(repoDir, 'packages/foo'), { recursive: true });
+    writeFileSync(join(repoDir, 'packages/foo/index.js'), '');
+    runGit('add', '.');
+    runGit('commit', '--quiet', '-m', 'feat(foo): add foo', '-m', 'Body');
+    writeFileSync(join(repoDir, 'README.md'), '');
+    runGit('add', '.');
+    runGit('commit', '--quiet', '-m', 'docs: add readme');
+  });
+
+  afterAll(() => {
+    rmSync(repoDir, { recursive: true, force: true });
+  });
+
+  it('should read a file at a ref from the local repository', async () => {
+    const source = createGitSource(repoDir);
+
+    await expect(source.readFile('manifest.json', 'HEAD')).resolves.toBe(
+      '{".":"1.0.0"}'
+    );
+  });
+
+  it('should be usable with getFileAtRef', async () => {
+    const sha = runGit('rev-parse', 'HEAD');
+
+    await expect(
+      getFileAtRef(createGitSource(repoDir), 'manifest.json', sha)
+    ).resolves.toBe('{".":"1.0.0"}');
+  });
+
+  it('should return null when the file does not exist at the ref', async () => {
+    const source = createGitSource(repoDir);
+
+    await expect(source.readFile('missing.json', 'HEAD')).resolves.toBeNull();
+  });
+
+  it('should list commit messages on a path between refs', async () => {
+    const source = createGitSource(repoDir);
+
+    await expect(
+      source.listCommitMessages('packages/foo', 'v1.0.0', 'HEAD')
+    ).resolves.toEqual(['feat(foo): add foo\n\nBody']);
+    await expect(
+      source.listCommitMessages('.', 'v1.0.0', 'HEAD')
+    ).resolves.toEqual(['docs: add readme', 'feat(foo): add foo\n\nBody']);
+  });
+
+  it('should list the files at a ref', async () => {
+    const source = createGitSource(repoDir);
+
+    await expect(source.listFiles('HEAD')).resolves.toEqual([
+      'README.md',
+      'manifest.json',
+      'packages/foo/index.js'
+    ]);
+    await expect(source.listFiles('v1.0.0')).resolves.toEqual([
+      'manifest.json'
+    ]);
+  });
+
+  it('should list the tags in the local repository', async () => {
+    await expect(createGitSource(repoDir).listTags()).resolves.toEqual([
+      'v1.0.0'
+    ]);
+  });
+
+  it('should return null when the from ref does not exist', async () => {
+    const source = createGitSource(repoDir);
+
+    await expect(
+      source.listCommitMessages('.', 'v0.0.1', 'HEAD')
+    ).resolves.toBeNull();
+  });
+
+  it('should throw a clear error when the ref is not fetched', async () => {
+    const source = createGitSource(repoDir);
+
+    await expect(
+      source.readFile(
+        'manifest.json',
+        'deadbeefdeadbeefdeadbeefdeadbeefdeadbeef'
+      )
+    ).rejects.toThrow(
+      '⛔️ Ref deadbeefdeadbeefdeadbeefdeadbeefdeadbeef is not available in the local repository'
+    );
+  });
+});
@@ -0,0 +1,274 @@
+import { context } from '@actions/github';
+import type { GitHub } from '@actions/github/lib/utils';
+import { git, hasRef } from './git';
+
+export type ContentSourceType = 'api' | 'git';
+
+export const CONTENT_SOURCES: ContentSourceType[] = ['api', 'git'];
+
+export interface FileSource {
+  readFile(filePath: string, ref: string): Promise<string | null>;
+  listCommitMessages(
+    path: string,
+    fromRef: string,
+    toRef: string
+  ): Promise<string[] | null>;
+  listFiles(ref: string): Promise<string[]>;
+  listTags(): Promise<string[]>;
+}
+
+export type ContentClient = InstanceType<typeof GitHub> | FileSource;
+
+/**
+ * Create a file source that reads files from the checked-out repository
+ * @param cwd - Repository directory (defaults to the current working directory)
+ * @returns File source backed by `git show <ref>:<path>`, `git log`, `git ls-tree` and `git tag`
+ */
+export function createGitSource(cwd: string = process.cwd()): FileSource {
+  const requireRef = async (ref: string) => {
+    if (!(await hasRef(ref, cwd))) {
+      throw new Error(
+        `⛔️ Ref ${ref} is not available in the local repository, fetch it before running (e.g., actions/checkout with fetch-depth: 0)`
+      );
+    }
+  };
+
+  return {
+    async readFile(filePath, ref) {
+      await requireRef(ref);
+
+      try {
+        return await git(['show', `${ref}:${filePath}`], cwd);
+      } catch {
+        // File doesn't exist at this ref
+        return null;
+      }
+    },
+
+    async listCommitMessages(path, fromRef, toRef) {
+      await requireRef(toRef);
+
+      // The previous release tag may not exist yet (e.g., first release)
+      if (!(await hasRef(fromRef, cwd))) {
+        return null;
+      }
+
+      const log = await git(
+        ['log', '--format=%B%x1e', `${fromRef}..${toRef}`, '--', path],
+        cwd
+      );
+
+      return log
+        .split('\x1e')
+        .map((message) => message.trim())
+        .filter(Boolean);
+    },
+
+    async listFiles(ref) {
+      await requireRef(ref);
+
+      const files = await git(
+        ['ls-tree', '-r', '--full-tree', '--name-only', ref],
+        cwd
+      );
+
+      return files.split('\n').filter(Boolean);
+    },
+
+    async listTags() {
+      const tags = await git(['tag', '--list'], cwd);
+
+      return tags.split('\n').filter(Boolean);
+    }
+  };
+}
+
+/**
+ * Get the content of a file from a specific ref
+ * @param client - GitHub API client or file source
+ * @param filePath - Path to the file relative to the repository root
+ * @param ref - Git ref (commit SHA, branch name, etc.)
+ * @returns Decoded file content or null if file doesn't exist
+ */
+export async function getFileAtRef(
+  client: ContentClient,
+  filePath: string,
+  ref: string
+): Promise<string | null> {
+  if ('readFile' in client) {
+    return client.readFile(filePath, ref);
+  }
+
+  try {
+    const { data } = await client.rest.repos.getContent({
+      owner: context.repo.owner,
+      repo: context.repo.repo,
+      path: filePath,
+      ref
+    });
+
+    if ('content' in data && data.content) {
+      return Buffer.from(data.content, 'base64').toString('utf-8');
+    }
+
+    // Files over 1MB come back from the contents API without content
+    if ('type' in data && data.type === 'file' && data.size > 0) {
+      const { data: blob } = await client.rest.git.getBlob({
+        owner: context.repo.owner,
+        repo: context.repo.repo,
+        file_sha: data.sha
+      });
+
+      return Buffer.from(blob.content, 'base64').toString('utf-8');
+    }
+
+    return null;
+  } catch (error) {
+    // File doesn't exist at this ref
+    if (error && typeof error === 'object' && 'status' in error) {
+      if (error.status === 404) {
+        return null;
+      }
+    }
+    throw error;
+  }
+}
+
+/**
+ * Get the messages of commits touching a path between two refs
+ * @param client - GitHub API client or file source
+ * @param path - Path to scope commits to, relative to the repository root
+ * @param fromRef - Git ref to list commits from (exclusive)
+ * @param toRef - Git ref to list commits to (inclusive)
+ * @returns Commit messages, newest first, or null if fromRef doesn't exist
+ */
+export async function getCommitMessages(
+  client: ContentClient,
+  path: string,
+  fromRef: string,
+  toRef: string
+): Promise<string[] | null> {
+  if ('readFile' in client) {
+    return client.listCommitMessages(path, fromRef, toRef);
+  }
+
+  let fromSha: string;
+
+  try {
+    const { data } = await client.rest.repos.getCommit({
+      owner: context.repo.owner,
+      repo: context.repo.repo,
+      ref: fromRef
+    });
+    fromSha = data.sha;
+  } catch (error) {
+    // Ref doesn't exist
+    if (error && typeof error === 'object' && 'status' in error) {
+      if (error.status === 404 || error.status === 422) {
+        return null;
+      }
+    }
+    throw error;
+  }
+
+  // Commits reachable from toRef but not fromRef, oldest first
+  const range = await client.paginate(
+    client.rest.repos.compareCommitsWithBasehead,
+    {
+      owner: context.repo.owner,
+      repo: context.repo.repo,
+      basehead: `${fromSha}...${toRef}`,
+      per_page: 100
+    },
+    (response) =>
+      response.data.commits.map(({ sha, commit }) => ({
+        sha,
+        message: commit.message,
+        date: commit.committer?.date
+      }))
+  );
+
+  if (path === '.' || range.length === 0) {
+    return range.map(({ message }) => message).reverse();
+  }
+
+  const rangeShas = new Set(range.map(({ sha }) => sha));
+  // Merged branches can hold commits dated before the tag, so the walk is
+  // bounded by the oldest commit in the range rather than the tag's date
+  const since = range
+    .map(({ date }) => date)
+    .filter((date): date is string => Boolean(date))
+    .sort()[0];
+
+  // The path-filtered history can leave out the tagged merge commit, so
+  // commits are matched against the range instead of walked until the tag
+  return client.paginate(
+    client.rest.repos.listCommits,
+    {
+      owner: context.repo.owner,
+      repo: context.repo.repo,
+      sha: toRef,
+      path,
+      since,
+      per_page: 100
+    },
+    (response) =>
+      response.data
+        .filter(({ sha }) => rangeShas.has(sha))
+        .map(({ commit }) => commit.message)
+  );
+}
+
+/**
+ * List every file in the repository at a ref
+ * @param client - GitHub API client or file source
+ * @param ref - Git ref (commit SHA, branch name, etc.)
+ * @returns File paths relative to the repository root
+ * @throws Error if the API truncates the tree, which happens in very large repositories
+ */
+export async function listFilesAtRef(
+  client: ContentClient,
+  ref: string
+): Promise<string[]> {
+  if ('readFile' in client) {
+    return client.listFiles(ref);
+  }
+
+  const { data } = await client.rest.git.getTree({
+    owner: context.repo.owner,
+    repo: context.repo.repo,
+    tree_sha: ref,
+    recursive: 'true'
+  });
+
+  if (data.truncated) {
+    throw new Error(
+      `⛔️ The file tree at ${ref} is too large for the GitHub API to list, set source to git or list manifest_file paths without globs`
+    );
+  }
+
+  return data.tree
+    .filter(({ type, path }) => type === 'blob' && path)
+    .map(({ path }) => path as string);
+}
+
+/**
+ * List every tag in the repository
+ * @param client - GitHub API client or file source
+ * @returns Tag names
+ */
+export async function listTags(client: ContentClient): Promise<string[]> {
+  if ('readFile' in client) {
+    return client.listTags();
+  }
+
+  return client.paginate(
+    client.rest.repos.listTags,
+    {
+      owner: context.repo.owner,
+      repo: context.repo.repo,
+      per_page: 100
+    },
+    (response) => response.data.map(({ name }) => name)
+  );
+}
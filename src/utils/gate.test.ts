@@ -0,0 +1,257 @@
+import type { GitHub } from '@actions/github/lib/utils';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  createGateCheck,
+  evaluateGate,
+  getApprovingReviewers,
+  isApprover
+} from './gate';
+import { analyzeManifestChanges } from './manifest';
+
+vi.mock('@actions/github', async (importOriginal) => {
+  const mod = await importOriginal<typeof import('@actions/github')>();
+
+  const context = {
+    repo: {
+      owner: 'test-owner',
+      repo: 'test-repo'
+    }
+  };
+
+  return {
+    ...mod,
+    context
+  };
+});
+
+const majorAnalysis = analyzeManifestChanges(
+  { 'packages/foo': '1.2.3' },
+  { 'packages/foo': '2.0.0' }
+);
+
+const createOctokit = ({
+  labels = [] as string[],
+  reviews = [] as { user: { login: string } | null; state: string }[],
+  teamMembers = [] as string[]
+} = {}) => {
+  const octokit = {
+    paginate: vi.fn(async (method: unknown) =>
+      method === octokit.rest.issues.listLabelsOnIssue
+        ? labels.map((name) => ({ name }))
+        : reviews
+    ),
+    rest: {
+      issues: { listLabelsOnIssue: vi.fn() },
+      pulls: { listReviews: vi.fn() },
+      teams: {
+        getMembershipForUserInOrg: vi.fn(
+          async ({ username }: { username: string }) => {
+            if (teamMembers.includes(username)) {
+              return { data: { state: 'active' } };
+            }
+            throw { status: 404 };
+          }
+        )
+      },
+      checks: { create: vi.fn().mockResolvedValue({}) }
+    }
+  };
+
+  return octokit;
+};
+
+describe('getApprovingReviewers', () => {
+  it('should use the latest decisive review from each user', async () => {
+    const octokit = createOctokit({
+      reviews: [
+        { user: { login: 'alice' }, state: 'APPROVED' },
+        { user: { login: 'bob' }, state: 'APPROVED' },
+        { user: { login: 'bob' }, state: 'CHANGES_REQUESTED' },
+        { user: { login: 'alice' }, state: 'COMMENTED' },
+        { user: { login: 'carol' }, state: 'CHANGES_REQUESTED' },
+        { user: { login: 'carol' }, state: 'APPROVED' },
+        { user: null, state: 'APPROVED' }
+      ]
+    });
+
+    await expect(
+      getApprovingReviewers(
+        octokit as unknown as InstanceType<typeof GitHub>,
+        42
+      )
+    ).resolves.toEqual(['alice', 'carol']);
+    expect(octokit.paginate).toHaveBeenCalledWith(
+      octokit.rest.pulls.listReviews,
+      {
+        owner: 'test-owner',
+        repo: 'test-repo',
+        pull_number: 42,
+        per_page: 100
+      }
+    );
+  });
+});
+
+describe('isApprover', () => {
+  it('should match listed users case-insensitively', async () => {
+    const octokit = createOctokit();
+
+    await expect(
+      isApprover(octokit as unknown as InstanceType<typeof GitHub>, 'Alice', [
+        'alice'
+      ])
+    ).resolves.toBe(true);
+  });
+
+  it('should check membership of listed teams', async () => {
+    const octokit = createOctokit({ teamMembers: ['bob'] });
+
+    await expect(
+      isApprover(octokit as unknown as InstanceType<typeof GitHub>, 'bob', [
+        'alice',
+        'my-org/release-approvers'
+      ])
+    ).resolves.toBe(true);
+    expect(octokit.rest.teams.getMembershipForUserInOrg).toHaveBeenCalledWith({
+      org: 'my-org',
+      team_slug: 'release-approvers',
+      username: 'bob'
+    });
+
+    await expect(
+      isApprover(octokit as unknown as InstanceType<typeof GitHub>, 'carol', [
+        'my-org/release-approvers'
+      ])
+    ).resolves.toBe(false);
+  });
+});
+
+describe('evaluateGate', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should pass when there are no major bumps', async () => {
+    const octokit = createOctokit();
+    const analysis = analyzeManifestChanges({ '.': '1.0.0' }, { '.': '1.1.0' });
+
+    const result = await evaluateGate(
+      octokit as unknown as InstanceType<typeof GitHub>,
+      42,
+      analysis,
+      { checkName: 'Major release approval', approvers: [] }
+    );
+
+    expect(result.conclusion).toBe('success');
+    expect(octokit.paginate).not.toHaveBeenCalled();
+  });
+
+  it('should pass when the approval label is present', async () => {
+    const octokit = createOctokit({ labels: ['breaking-change-approved'] });
+
+    const result = await evaluateGate(
+      octokit as unknown as InstanceType<typeof GitHub>,
+      42,
+      majorAnalysis,
+      {
+        checkName: 'Major release approval',
+        approvalLabel: 'breaking-change-approved',
+        approvers: []
+      }
+    );
+
+    expect(result.conclusion).toBe('success');
+    expect(result.summary).toContain(
+      'Approved by the `breaking-change-approved` label.'
+    );
+  });
+
+  it('should pass when an approver has approved', async () => {
+    const octokit = createOctokit({
+      reviews: [
+        { user: { login: 'alice' }, state: 'APPROVED' },
+        { user: { login: 'bob' }, state: 'APPROVED' }
+      ],
+      teamMembers: ['bob']
+    });
+
+    const result = await evaluateGate(
+      octokit as unknown as InstanceType<typeof GitHub>,
+      42,
+      majorAnalysis,
+      {
+        checkName: 'Major release approval',
+        approvers: ['my-org/release-approvers']
+      }
+    );
+
+    expect(result.conclusion).toBe('success');
+    expect(result.summary).toContain('Approved by @bob.');
+  });
+
+  it('should fail when no approval condition is met', async () => {
+    const octokit = createOctokit({
+      labels: ['bug'],
+      reviews: [{ user: { login: 'alice' }, state: 'APPROVED' }]
+    });
+
+    const result = await evaluateGate(
+      octokit as unknown as InstanceType<typeof GitHub>,
+      42,
+      majorAnalysis,
+      {
+        checkName: 'Major release approval',
+        approvalLabel: 'breaking-change-approved',
+        approvers: ['bob']
+      }
+    );
+
+    expect(result).toEqual({
+      conclusion: 'failure',
+      title: 'Major version bumps need approval',
+      summary: expect.stringContaining(
+        'To approve the major version bumps, add the `breaking-change-approved` label or get an approving review from @bob.'
+      )
+    });
+    expect(result.summary).toContain('🚨 **major**');
+  });
+
+  it('should fail when no approval conditions are configured', async () => {
+    const octokit = createOctokit();
+
+    const result = await evaluateGate(
+      octokit as unknown as InstanceType<typeof GitHub>,
+      42,
+      majorAnalysis,
+      { checkName: 'Major release approval', approvers: [] }
+    );
+
+    expect(result.conclusion).toBe('failure');
+    expect(result.summary).toContain(
+      'No approval label or approvers are configured.'
+    );
+  });
+});
+
+describe('createGateCheck', () => {
+  it('should create a completed check run', async () => {
+    const octokit = createOctokit();
+
+    await createGateCheck(
+      octokit as unknown as InstanceType<typeof GitHub>,
+      'head-sha',
+      'Major release approval',
+      { conclusion: 'failure', title: 'Title', summary: 'Summary' }
+    );
+
+    expect(octokit.rest.checks.create).toHaveBeenCalledWith({
+      owner: 'test-owner',
+      repo: 'test-repo',
+      name: 'Major release approval',
+      head_sha: 'head-sha',
+      status: 'completed',
+      conclusion: 'failure',
+      output: { title: 'Title', summary: 'Summary' }
+    });
+  });
+});
@@ -0,0 +1,199 @@
+import { context } from '@actions/github';
+import type { GitHub } from '@actions/github/lib/utils';
+import type { BreakingChanges } from './changelog';
+import type { PackageDetails } from './config';
+import { getIssueLabels } from './labels';
+import type { ManifestAnalysis } from './manifest';
+import { renderBreakingChanges, renderBumpTable } from './report';
+
+export interface GateConfig {
+  checkName: string;
+  approvalLabel?: string;
+  approvers: string[];
+}
+
+export type GateConclusion = 'success' | 'failure';
+
+export interface GateResult {
+  conclusion: GateConclusion;
+  title: string;
+  summary: string;
+}
+
+/**
+ * Get the users whose latest review on a PR is an approval
+ * @param octokit - GitHub API client
+ * @param pullNumber - Pull request number
+ * @returns Logins of approving reviewers
+ */
+export async function getApprovingReviewers(
+  octokit: InstanceType<typeof GitHub>,
+  pullNumber: number
+): Promise<string[]> {
+  const reviews = await octokit.paginate(octokit.rest.pulls.listReviews, {
+    owner: context.repo.owner,
+    repo: context.repo.repo,
+    pull_number: pullNumber,
+    per_page: 100
+  });
+
+  const latestStates = new Map<string, string>();
+
+  // Reviews are returned oldest first, and comments don't change a review decision
+  for (const review of reviews) {
+    if (review.user && review.state !== 'COMMENTED') {
+      latestStates.set(review.user.login, review.state);
+    }
+  }
+
+  return [...latestStates]
+    .filter(([, state]) => state === 'APPROVED')
+    .map(([login]) => login);
+}
+
+/**
+ * Check whether a user is one of the configured approvers
+ * @param octokit - GitHub API client
+ * @param username - User login
+ * @param approvers - User logins and `org/team-slug` entries
+ * @returns true if the user is listed or an active member of a listed team
+ */
+export async function isApprover(
+  octokit: InstanceType<typeof GitHub>,
+  username: string,
+  approvers: string[]
+): Promise<boolean> {
+  for (const approver of approvers) {
+    const [org, teamSlug] = approver.split('/');
+
+    if (!teamSlug) {
+      if (approver.toLowerCase() === username.toLowerCase()) {
+        return true;
+      }
+      continue;
+    }
+
+    try {
+      const { data } = await octokit.rest.teams.getMembershipForUserInOrg({
+        org,
+        team_slug: teamSlug,
+        username
+      });
+
+      if (data.state === 'active') {
+        return true;
+      }
+    } catch (error) {
+      // User isn't a member of this team
+      if (error && typeof error === 'object' && 'status' in error) {
+        if (error.status === 404) {
+          continue;
+        }
+      }
+      throw error;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Decide whether a PR passes the major bump approval gate
+ * @param octokit - GitHub API client
+ * @param pullNumber - Pull request number
+ * @param analysis - Manifest analysis
+ * @param config - Approval label and approvers
+ * @param packages - Resolved package details, used in the check summary
+ * @param breakingChanges - Breaking changes read from changelogs, used in the check summary
+ * @returns Check conclusion, title and markdown summary
+ */
+export async function evaluateGate(
+  octokit: InstanceType<typeof GitHub>,
+  pullNumber: number,
+  analysis: ManifestAnalysis,
+  config: GateConfig,
+  packages: Record<string, PackageDetails> = {},
+  breakingChanges: Record<string, BreakingChanges> = {}
+): Promise<GateResult> {
+  if (!analysis.hasMajorBump) {
+    return {
+      conclusion: 'success',
+      title: 'No major version bumps',
+      summary: 'No major version bumps were detected.'
+    };
+  }
+
+  const table = [
+    renderBumpTable(analysis, packages),
+    renderBreakingChanges(breakingChanges)
+  ]
+    .filter(Boolean)
+    .join('\n\n');
+
+  if (config.approvalLabel) {
+    const labels = await getIssueLabels(octokit, pullNumber);
+
+    if (labels.includes(config.approvalLabel)) {
+      return {
+        conclusion: 'success',
+        title: 'Major version bumps approved',
+        summary: `Approved by the \`${config.approvalLabel}\` label.\n\n${table}`
+      };
+    }
+  }
+
+  if (config.approvers.length > 0) {
+    for (const reviewer of await getApprovingReviewers(octokit, pullNumber)) {
+      if (await isApprover(octokit, reviewer, config.approvers)) {
+        return {
+          conclusion: 'success',
+          title: 'Major version bumps approved',
+          summary: `Approved by @${reviewer}.\n\n${table}`
+        };
+      }
+    }
+  }
+
+  const conditions = [
+    config.approvalLabel && `add the \`${config.approvalLabel}\` label`,
+    config.approvers.length > 0 &&
+      `get an approving review from ${config.approvers.map((approver) => `@${approver}`).join(', ')}`
+  ].filter(Boolean);
+
+  return {
+    conclusion: 'failure',
+    title: 'Major version bumps need approval',
+    summary: `${
+      conditions.length > 0
+        ? `To approve the major version bumps, ${conditions.join(' or ')}.`
+        : 'No approval label or approvers are configured.'
+    }\n\n${table}`
+  };
+}
+
+/**
+ * Create a completed check run with the gate result
+ * @param octokit - GitHub API client
+ * @param headSha - Commit SHA the check run is attached to
+ * @param checkName - Check run name
+ * @param result - Gate result
+ */
+export async function createGateCheck(
+  octokit: InstanceType<typeof GitHub>,
+  headSha: string,
+  checkName: string,
+  result: GateResult
+): Promise<void> {
+  await octokit.rest.checks.create({
+    owner: context.repo.owner,
+    repo: context.repo.repo,
+    name: checkName,
+    head_sha: headSha,
+    status: 'completed',
+    conclusion: result.conclusion,
+    output: {
+      title: result.title,
+      summary: result.summary
+    }
+  });
+}
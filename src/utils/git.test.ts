@@ -0,0 +1,45 @@
+import { execFileSync } from 'node:child_process';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { git, hasRef } from './git';
+
+describe('git', () => {
+  let repoDir: string;
+
+  beforeAll(() => {
+    repoDir = mkdtempSync(join(tmpdir(), 'detect-major-changes-'));
+    execFileSync('git', ['init', '--quiet'], { cwd: repoDir });
+    execFileSync('git', ['config', 'user.email', 'test@example.com'], {
+      cwd: repoDir
+    });
+    execFileSync('git', ['config', 'user.name', 'Test'], { cwd: repoDir });
+    writeFileSync(join(repoDir, 'file.txt'), 'hello');
+    execFileSync('git', ['add', '.'], { cwd: repoDir });
+    execFileSync('git', ['commit', '--quiet', '-m', 'initial'], {
+      cwd: repoDir
+    });
+  });
+
+  afterAll(() => {
+    rmSync(repoDir, { recursive: true, force: true });
+  });
+
+  it('should return command output', async () => {
+    await expect(git(['show', 'HEAD:file.txt'], repoDir)).resolves.toBe(
+      'hello'
+    );
+  });
+
+  it('should throw with stderr when the command fails', async () => {
+    await expect(git(['show', 'HEAD:missing.txt'], repoDir)).rejects.toThrow(
+      /missing\.txt/
+    );
+  });
+
+  it('should check whether a ref is available', async () => {
+    await expect(hasRef('HEAD', repoDir)).resolves.toBe(true);
+    await expect(hasRef('no-such-branch', repoDir)).resolves.toBe(false);
+  });
+});
@@ -0,0 +1,44 @@
+import { execFile } from 'node:child_process';
+import { promisify } from 'node:util';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Run a git command in a local repository
+ * @param args - Arguments passed to git
+ * @param cwd - Repository directory
+ * @returns Command stdout
+ * @throws Error with git's stderr if the command fails
+ */
+export async function git(args: string[], cwd: string): Promise<string> {
+  try {
+    const { stdout } = await execFileAsync('git', args, {
+      cwd,
+      maxBuffer: 64 * 1024 * 1024
+    });
+
+    return stdout;
+  } catch (error) {
+    const stderr =
+      error && typeof error === 'object' && 'stderr' in error
+        ? String(error.stderr).trim()
+        : '';
+
+    throw new Error(stderr || `git ${args[0]} failed`);
+  }
+}
+
+/**
+ * Check whether a ref resolves to a commit in a local repository
+ * @param ref - Git ref (commit SHA, branch name, etc.)
+ * @param cwd - Repository directory
+ * @returns true if the ref is available locally
+ */
+export async function hasRef(ref: string, cwd: string): Promise<boolean> {
+  try {
+    await git(['rev-parse', '--verify', '--quiet', `${ref}^{commit}`], cwd);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { getPathEntry, globToRegExp, isGlob, matchesAny } from './glob';
+
+describe('isGlob', () => {
+  it('should detect glob syntax', () => {
+    expect(isGlob('**/.release-please-manifest.json')).toBe(true);
+    expect(isGlob('{apps,libs}/manifest.json')).toBe(true);
+    expect(isGlob('apps/.release-please-manifest.json')).toBe(false);
+  });
+});
+
+describe('globToRegExp', () => {
+  it('should match a single path segment with *', () => {
+    const regExp = globToRegExp('packages/*');
+
+    expect(regExp.test('packages/foo')).toBe(true);
+    expect(regExp.test('packages/foo/bar')).toBe(false);
+  });
+
+  it('should match any number of directories with **/', () => {
+    const regExp = globToRegExp('**/.release-please-manifest.json');
+
+    expect(regExp.test('.release-please-manifest.json')).toBe(true);
+    expect(regExp.test('apps/web/.release-please-manifest.json')).toBe(true);
+    expect(regExp.test('apps/release-please-manifest.json')).toBe(false);
+  });
+
+  it('should match anything with a trailing **', () => {
+    expect(globToRegExp('packages/**').test('packages/a/b/c')).toBe(true);
+  });
+
+  it('should match alternatives and single characters', () => {
+    const regExp = globToRegExp('{apps,libs}/v?');
+
+    expect(regExp.test('apps/v1')).toBe(true);
+    expect(regExp.test('libs/v2')).toBe(true);
+    expect(regExp.test('tools/v1')).toBe(false);
+    expect(regExp.test('apps/v10')).toBe(false);
+  });
+
+  it.each(['{apps', 'libs}/manifest.json', '{a,{b,c}}'])(
+    'should reject unbalanced or nested braces in %s',
+    (pattern) => {
+      expect(() => globToRegExp(pattern)).toThrow(
+        `Invalid glob pattern "${pattern}", braces must be balanced and not nested`
+      );
+    }
+  );
+
+  it('should treat other characters literally', () => {
+    const regExp = globToRegExp('a.b+(c)');
+
+    expect(regExp.test('a.b+(c)')).toBe(true);
+    expect(regExp.test('axb+(c)')).toBe(false);
+  });
+});
+
+describe('matchesAny', () => {
+  it('should check a path against several patterns', () => {
+    expect(matchesAny('packages/foo', ['apps/*', 'packages/*'])).toBe(true);
+    expect(matchesAny('packages/foo', ['apps/*'])).toBe(false);
+    expect(matchesAny('packages/foo', [])).toBe(false);
+  });
+});
+
+describe('getPathEntry', () => {
+  const record = { 'packages/*': 'glob', 'packages/core': 'exact' };
+
+  it('should prefer an exact path over a matching pattern', () => {
+    expect(getPathEntry(record, 'packages/core')).toBe('exact');
+    expect(getPathEntry(record, 'packages/app')).toBe('glob');
+  });
+
+  it('should return undefined when nothing matches', () => {
+    expect(getPathEntry(record, 'tools/lint')).toBeUndefined();
+  });
+});
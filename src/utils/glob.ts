@@ -0,0 +1,98 @@
+/**
+ * Check whether a path contains glob syntax
+ * @param pattern - Path or glob pattern
+ * @returns true if the pattern contains `*`, `?` or `{`
+ */
+export function isGlob(pattern: string): boolean {
+  return /[*?{]/.test(pattern);
+}
+
+/**
+ * Convert a glob pattern to a regular expression matching whole paths
+ * @param pattern - Glob pattern supporting `**`, `*`, `?` and `{a,b}`
+ * @returns Regular expression anchored to the start and end of the path
+ * @throws Error if the pattern has unbalanced or nested braces
+ */
+export function globToRegExp(pattern: string): RegExp {
+  const invalid = () =>
+    new Error(
+      `Invalid glob pattern "${pattern}", braces must be balanced and not nested`
+    );
+
+  let source = '';
+  let inBraces = false;
+
+  for (let index = 0; index < pattern.length; index++) {
+    const char = pattern[index];
+
+    if (char === '*' && pattern[index + 1] === '*') {
+      // "**/" matches zero or more directories, a trailing "**" matches anything
+      if (pattern[index + 2] === '/') {
+        source += '(?:.*/)?';
+        index += 2;
+      } else {
+        source += '.*';
+        index += 1;
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      if (inBraces) {
+        throw invalid();
+      }
+
+      inBraces = true;
+      source += '(?:';
+    } else if (char === '}') {
+      if (!inBraces) {
+        throw invalid();
+      }
+
+      inBraces = false;
+      source += ')';
+    } else if (char === ',' && inBraces) {
+      source += '|';
+    } else {
+      source += char.replace(/[.+^$()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  if (inBraces) {
+    throw invalid();
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Check whether a path matches any of a list of glob patterns
+ * @param path - Path to check
+ * @param patterns - Glob patterns (plain paths match exactly)
+ * @returns true if any pattern matches
+ */
+export function matchesAny(path: string, patterns: string[]): boolean {
+  return patterns.some((pattern) => globToRegExp(pattern).test(path));
+}
+
+/**
+ * Look up the entry for a path in a record keyed by paths and glob patterns
+ * @param record - Entries keyed by path or glob pattern
+ * @param path - Path to look up
+ * @returns The entry of the exact path, else of the first matching pattern, else undefined
+ */
+export function getPathEntry<T>(
+  record: Record<string, T>,
+  path: string
+): T | undefined {
+  if (path in record) {
+    return record[path];
+  }
+
+  const pattern = Object.keys(record).find((key) =>
+    globToRegExp(key).test(path)
+  );
+
+  return pattern === undefined ? undefined : record[pattern];
+}
@@ -0,0 +1,190 @@
+import type { GitHub } from '@actions/github/lib/utils';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  getDesiredLabels,
+  hasLabelConfig,
+  isManagedLabel,
+  syncLabels
+} from './labels';
+import { analyzeManifestChanges } from './manifest';
+
+vi.mock('@actions/github', async (importOriginal) => {
+  const mod = await importOriginal<typeof import('@actions/github')>();
+
+  const context = {
+    repo: {
+      owner: 'test-owner',
+      repo: 'test-repo'
+    }
+  };
+
+  return {
+    ...mod,
+    context
+  };
+});
+
+const config = {
+  major: 'major release',
+  minor: 'minor release',
+  patch: 'patch release',
+  componentTemplate: 'major:{component}'
+};
+
+const createOctokit = (labels: string[]) => ({
+  paginate: vi.fn().mockResolvedValue(labels.map((name) => ({ name }))),
+  rest: {
+    issues: {
+      listLabelsOnIssue: vi.fn(),
+      addLabels: vi.fn().mockResolvedValue({}),
+      removeLabel: vi.fn().mockResolvedValue({})
+    }
+  }
+});
+
+describe('hasLabelConfig', () => {
+  it('should check whether any label is configured', () => {
+    expect(hasLabelConfig({ major: '', minor: '' })).toBe(false);
+    expect(
+      hasLabelConfig({ major: '', componentTemplate: 'x:{component}' })
+    ).toBe(true);
+  });
+});
+
+describe('getDesiredLabels', () => {
+  it('should add labels for each bump level and major component', () => {
+    const analysis = analyzeManifestChanges(
+      { 'packages/foo': '1.0.0', 'packages/bar': '1.0.0' },
+      { 'packages/foo': '2.0.0', 'packages/bar': '1.1.0' }
+    );
+
+    expect(
+      getDesiredLabels(
+        analysis,
+        {
+          'packages/foo': {
+            oldVersion: '1.0.0',
+            newVersion: '2.0.0',
+            bump: 'major',
+            component: 'foo',
+            packageName: null,
+            tag: 'foo-v2.0.0',
+            releaseType: null,
+            changelogPath: 'packages/foo/CHANGELOG.md'
+          }
+        },
+        config
+      )
+    ).toEqual(['major release', 'minor release', 'major:foo']);
+  });
+
+  it('should fall back to the path when the component is unknown', () => {
+    const analysis = analyzeManifestChanges(
+      { 'packages/foo': '1.0.0' },
+      { 'packages/foo': '2.0.0' }
+    );
+
+    expect(getDesiredLabels(analysis, {}, config)).toEqual([
+      'major release',
+      'major:packages/foo'
+    ]);
+  });
+
+  it('should return no labels when nothing is configured', () => {
+    const analysis = analyzeManifestChanges(
+      { 'packages/foo': '1.0.0' },
+      { 'packages/foo': '2.0.0' }
+    );
+
+    expect(getDesiredLabels(analysis, {}, {})).toEqual([]);
+  });
+});
+
+describe('isManagedLabel', () => {
+  it.each([
+    ['major release', true],
+    ['patch release', true],
+    ['major:foo', true],
+    ['major:', false],
+    ['bug', false]
+  ])('should check whether %s is managed', (label, expected) => {
+    expect(isManagedLabel(label, config)).toBe(expected);
+  });
+
+  it('should escape special characters in the component template', () => {
+    expect(
+      isManagedLabel('breaking (foo)', {
+        componentTemplate: 'breaking ({component})'
+      })
+    ).toBe(true);
+    expect(
+      isManagedLabel('breakingXfoo)', {
+        componentTemplate: 'breaking ({component})'
+      })
+    ).toBe(false);
+  });
+});
+
+describe('syncLabels', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should add missing labels and remove stale managed labels', async () => {
+    const octokit = createOctokit(['bug', 'minor release', 'major:old']);
+
+    const result = await syncLabels(
+      octokit as unknown as InstanceType<typeof GitHub>,
+      42,
+      ['major release', 'major:foo', 'minor release'],
+      config
+    );
+
+    expect(result).toEqual({
+      added: ['major release', 'major:foo'],
+      removed: ['major:old']
+    });
+    expect(octokit.rest.issues.addLabels).toHaveBeenCalledWith({
+      owner: 'test-owner',
+      repo: 'test-repo',
+      issue_number: 42,
+      labels: ['major release', 'major:foo']
+    });
+    expect(octokit.rest.issues.removeLabel).toHaveBeenCalledTimes(1);
+    expect(octokit.rest.issues.removeLabel).toHaveBeenCalledWith({
+      owner: 'test-owner',
+      repo: 'test-repo',
+      issue_number: 42,
+      name: 'major:old'
+    });
+  });
+
+  it('should not call the API when labels already match', async () => {
+    const octokit = createOctokit(['major release']);
+
+    const result = await syncLabels(
+      octokit as unknown as InstanceType<typeof GitHub>,
+      42,
+      ['major release'],
+      config
+    );
+
+    expect(result).toEqual({ added: [], removed: [] });
+    expect(octokit.rest.issues.addLabels).not.toHaveBeenCalled();
+    expect(octokit.rest.issues.removeLabel).not.toHaveBeenCalled();
+  });
+
+  it('should ignore labels that were already removed', async () => {
+    const octokit = createOctokit(['major release']);
+    octokit.rest.issues.removeLabel.mockRejectedValue({ status: 404 });
+
+    await expect(
+      syncLabels(
+        octokit as unknown as InstanceType<typeof GitHub>,
+        42,
+        [],
+        config
+      )
+    ).resolves.toEqual({ added: [], removed: ['major release'] });
+  });
+});
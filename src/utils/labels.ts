@@ -0,0 +1,160 @@
+import { context } from '@actions/github';
+import type { GitHub } from '@actions/github/lib/utils';
+import type { PackageDetails } from './config';
+import type { ManifestAnalysis } from './manifest';
+
+export interface LabelConfig {
+  major?: string;
+  minor?: string;
+  patch?: string;
+  componentTemplate?: string;
+}
+
+export interface LabelChanges {
+  added: string[];
+  removed: string[];
+}
+
+const COMPONENT_PLACEHOLDER = '{component}';
+
+/**
+ * Check whether any labels are configured
+ * @param config - Label names and component label template
+ * @returns true if at least one label is configured
+ */
+export function hasLabelConfig(config: LabelConfig): boolean {
+  return Object.values(config).some(Boolean);
+}
+
+/**
+ * Get the labels that should be on the PR for an analysis
+ * @param analysis - Manifest analysis
+ * @param packages - Resolved package details, used to fill the component label template
+ * @param config - Label names and component label template
+ * @returns Label names, without duplicates
+ */
+export function getDesiredLabels(
+  analysis: ManifestAnalysis,
+  packages: Record<string, PackageDetails>,
+  config: LabelConfig
+): string[] {
+  const labels = new Set<string>();
+
+  if (config.major && analysis.hasMajorBump) {
+    labels.add(config.major);
+  }
+
+  if (config.minor && analysis.hasMinorBump) {
+    labels.add(config.minor);
+  }
+
+  if (config.patch && analysis.hasPatchBump) {
+    labels.add(config.patch);
+  }
+
+  if (config.componentTemplate) {
+    for (const path of Object.keys(analysis.majorBumps)) {
+      const component = packages[path]?.component ?? path;
+      labels.add(
+        config.componentTemplate.split(COMPONENT_PLACEHOLDER).join(component)
+      );
+    }
+  }
+
+  return [...labels];
+}
+
+/**
+ * Check whether a label is managed by this action, so it can be removed when stale
+ * @param label - Label name
+ * @param config - Label names and component label template
+ * @returns true if the label is a configured label or matches the component label template
+ */
+export function isManagedLabel(label: string, config: LabelConfig): boolean {
+  if ([config.major, config.minor, config.patch].includes(label)) {
+    return true;
+  }
+
+  if (!config.componentTemplate?.includes(COMPONENT_PLACEHOLDER)) {
+    return false;
+  }
+
+  const pattern = config.componentTemplate
+    .split(COMPONENT_PLACEHOLDER)
+    .map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.+');
+
+  return new RegExp(`^${pattern}$`).test(label);
+}
+
+/**
+ * Get the labels currently on a PR
+ * @param octokit - GitHub API client
+ * @param issueNumber - Pull request number
+ * @returns Label names
+ */
+export async function getIssueLabels(
+  octokit: InstanceType<typeof GitHub>,
+  issueNumber: number
+): Promise<string[]> {
+  const labels = await octokit.paginate(octokit.rest.issues.listLabelsOnIssue, {
+    owner: context.repo.owner,
+    repo: context.repo.repo,
+    issue_number: issueNumber,
+    per_page: 100
+  });
+
+  return labels.map(({ name }) => name);
+}
+
+/**
+ * Add and remove managed labels so the PR matches the analysis
+ * @param octokit - GitHub API client
+ * @param issueNumber - Pull request number
+ * @param desired - Labels that should be on the PR
+ * @param config - Label names and component label template
+ * @returns Labels that were added and removed
+ */
+export async function syncLabels(
+  octokit: InstanceType<typeof GitHub>,
+  issueNumber: number,
+  desired: string[],
+  config: LabelConfig
+): Promise<LabelChanges> {
+  const current = await getIssueLabels(octokit, issueNumber);
+
+  const added = desired.filter((label) => !current.includes(label));
+  const removed = current.filter(
+    (label) => !desired.includes(label) && isManagedLabel(label, config)
+  );
+
+  if (added.length > 0) {
+    await octokit.rest.issues.addLabels({
+      owner: context.repo.owner,
+      repo: context.repo.repo,
+      issue_number: issueNumber,
+      labels: added
+    });
+  }
+
+  for (const label of removed) {
+    try {
+      await octokit.rest.issues.removeLabel({
+        owner: context.repo.owner,
+        repo: context.repo.repo,
+        issue_number: issueNumber,
+        name: label
+      });
+    } catch (error) {
+      // Label was already removed
+      if (error && typeof error === 'object' && 'status' in error) {
+        if (error.status === 404) {
+          continue;
+        }
+      }
+      throw error;
+    }
+  }
+
+  return { added, removed };
+}
@@ -3,8 +3,14 @@ import { beforeEach, describe, expect, it, vi } from 'vitest';
 import {
   analyzeManifestChanges,
   detectMajorBumps,
-  getManifestAtRef
+  detectManifestChanges,
+  getManifestAtRef,
+  getManifestKey,
+  mergeAnalyses,
+  mergeByManifest,
+  resolveManifestFiles
 } from './manifest';
+import { JAVA_SNAPSHOT_STRATEGY, createCalverStrategy } from './version';
 
 const mocks = vi.hoisted(() => {
   return {
@@ -35,7 +41,13 @@ describe('analyzeManifestChanges', () => {
 
     expect(result).toEqual({
       hasMajorBump: false,
-      majorBumps: {}
+      hasMinorBump: false,
+      hasPatchBump: false,
+      hasMajorPrerelease: false,
+      majorBumps: {},
+      majorPrereleases: {},
+      changes: {},
+      policies: {}
     });
   });
 
@@ -44,7 +56,13 @@ describe('analyzeManifestChanges', () => {
 
     expect(result).toEqual({
       hasMajorBump: false,
-      majorBumps: {}
+      hasMinorBump: false,
+      hasPatchBump: false,
+      hasMajorPrerelease: false,
+      majorBumps: {},
+      majorPrereleases: {},
+      changes: {},
+      policies: {}
     });
   });
 
@@ -148,6 +166,180 @@ describe('analyzeManifestChanges', () => {
     expect(result.majorBumps).toEqual({});
   });
 
+  it('should classify every changed path', () => {
+    const oldManifest = {
+      'packages/major': '1.0.0',
+      'packages/minor': '1.0.0',
+      'packages/patch': '1.0.0',
+      'packages/pre': '2.0.0-rc.1',
+      'packages/down': '2.0.0',
+      'packages/removed': '1.0.0',
+      'packages/same': '1.0.0'
+    };
+    const newManifest = {
+      'packages/major': '2.0.0',
+      'packages/minor': '1.1.0',
+      'packages/patch': '1.0.1',
+      'packages/pre': '2.0.0-rc.2',
+      'packages/down': '1.9.0',
+      'packages/added': '0.1.0',
+      'packages/same': '1.0.0'
+    };
+
+    const result = analyzeManifestChanges(oldManifest, newManifest);
+
+    expect(result.hasMajorBump).toBe(true);
+    expect(result.hasMinorBump).toBe(true);
+    expect(result.hasPatchBump).toBe(true);
+    expect(result.changes).toEqual({
+      'packages/major': {
+        oldVersion: '1.0.0',
+        newVersion: '2.0.0',
+        bump: 'major',
+        prerelease: null
+      },
+      'packages/minor': {
+        oldVersion: '1.0.0',
+        newVersion: '1.1.0',
+        bump: 'minor',
+        prerelease: null
+      },
+      'packages/patch': {
+        oldVersion: '1.0.0',
+        newVersion: '1.0.1',
+        bump: 'patch',
+        prerelease: null
+      },
+      'packages/pre': {
+        oldVersion: '2.0.0-rc.1',
+        newVersion: '2.0.0-rc.2',
+        bump: 'prerelease',
+        prerelease: 'advance'
+      },
+      'packages/down': {
+        oldVersion: '2.0.0',
+        newVersion: '1.9.0',
+        bump: 'downgraded',
+        prerelease: null
+      },
+      'packages/added': {
+        oldVersion: null,
+        newVersion: '0.1.0',
+        bump: 'added',
+        prerelease: null
+      },
+      'packages/removed': {
+        oldVersion: '1.0.0',
+        newVersion: null,
+        bump: 'removed',
+        prerelease: null
+      }
+    });
+  });
+
+  it('should report minor and patch flags without a major bump', () => {
+    const result = analyzeManifestChanges(
+      { 'packages/foo': '1.0.0' },
+      { 'packages/foo': '1.1.0' }
+    );
+
+    expect(result.hasMajorBump).toBe(false);
+    expect(result.hasMinorBump).toBe(true);
+    expect(result.hasPatchBump).toBe(false);
+  });
+
+  it('should include bumps at or above the detect level', () => {
+    const oldManifest = {
+      'packages/major': '1.0.0',
+      'packages/minor': '1.0.0',
+      'packages/patch': '1.0.0'
+    };
+    const newManifest = {
+      'packages/major': '2.0.0',
+      'packages/minor': '1.1.0',
+      'packages/patch': '1.0.1'
+    };
+
+    const result = analyzeManifestChanges(oldManifest, newManifest, {
+      detectLevel: 'minor'
+    });
+
+    expect(result.hasMajorBump).toBe(true);
+    expect(result.majorBumps).toEqual({
+      'packages/major': ['1.0.0', '2.0.0'],
+      'packages/minor': ['1.0.0', '1.1.0']
+    });
+  });
+
+  it('should detect 0.x minor bumps with caret-compatible semantics', () => {
+    const oldManifest = { 'packages/foo': '0.4.2', 'packages/bar': '1.4.2' };
+    const newManifest = { 'packages/foo': '0.5.0', 'packages/bar': '1.5.0' };
+
+    expect(analyzeManifestChanges(oldManifest, newManifest).hasMajorBump).toBe(
+      false
+    );
+
+    const result = analyzeManifestChanges(oldManifest, newManifest, {
+      breakingSemantics: 'caret-compatible'
+    });
+
+    expect(result.hasMajorBump).toBe(true);
+    expect(result.majorBumps).toEqual({
+      'packages/foo': ['0.4.2', '0.5.0']
+    });
+    expect(result.changes['packages/bar'].bump).toBe('minor');
+  });
+
+  it('should report major prerelease transitions as major by default', () => {
+    const result = analyzeManifestChanges(
+      { 'packages/foo': '1.9.0', 'packages/bar': '3.0.0-rc.1' },
+      { 'packages/foo': '2.0.0-alpha.0', 'packages/bar': '3.0.0' }
+    );
+
+    expect(result.majorBumps).toEqual({
+      'packages/foo': ['1.9.0', '2.0.0-alpha.0'],
+      'packages/bar': ['3.0.0-rc.1', '3.0.0']
+    });
+    expect(result.changes['packages/foo'].prerelease).toBe('enter');
+    expect(result.changes['packages/bar'].prerelease).toBe('graduate');
+    expect(result.hasMajorPrerelease).toBe(false);
+  });
+
+  it('should ignore prerelease transitions when configured', () => {
+    const result = analyzeManifestChanges(
+      { 'packages/foo': '1.9.0', 'packages/bar': '3.0.0-rc.1' },
+      { 'packages/foo': '2.0.0-alpha.0', 'packages/bar': '3.0.0' },
+      { prerelease: 'ignore' }
+    );
+
+    expect(result.hasMajorBump).toBe(false);
+    expect(result.hasMajorPrerelease).toBe(false);
+    expect(result.changes['packages/foo'].bump).toBe('prerelease');
+  });
+
+  it('should flag major prerelease transitions separately when configured', () => {
+    const result = analyzeManifestChanges(
+      {
+        'packages/foo': '1.9.0',
+        'packages/bar': '3.0.0-rc.1',
+        'packages/baz': '1.2.0'
+      },
+      {
+        'packages/foo': '2.0.0-alpha.0',
+        'packages/bar': '3.0.0',
+        'packages/baz': '1.3.0-beta.0'
+      },
+      { prerelease: 'flag' }
+    );
+
+    expect(result.hasMajorBump).toBe(false);
+    expect(result.hasMajorPrerelease).toBe(true);
+    expect(result.majorPrereleases).toEqual({
+      'packages/foo': ['1.9.0', '2.0.0-alpha.0'],
+      'packages/bar': ['3.0.0-rc.1', '3.0.0']
+    });
+  });
+
   it('should handle unchanged versions', () => {
     const oldManifest = { '.': '1.2.3' };
     const newManifest = { '.': '1.2.3' };
@@ -159,6 +351,112 @@ describe('analyzeManifestChanges', () => {
   });
 });
 
+describe('analyzeManifestChanges with path filters and policies', () => {
+  const oldManifest = {
+    'packages/sdk-js': '1.0.0',
+    'packages/sdk-go': '1.0.0',
+    'tools/lint-config': '1.0.0',
+    'tools/scripts': '1.0.0',
+    'packages/app': '1.0.0'
+  };
+  const newManifest = {
+    'packages/sdk-js': '2.0.0',
+    'packages/sdk-go': '1.1.0',
+    'tools/lint-config': '2.0.0',
+    'tools/scripts': '2.0.0',
+    'packages/app': '2.0.0'
+  };
+
+  it('should only analyze included paths that are not excluded', () => {
+    const analysis = analyzeManifestChanges(oldManifest, newManifest, {
+      paths: { include: ['packages/*', 'tools/*'], exclude: ['tools/scripts'] }
+    });
+
+    expect(Object.keys(analysis.changes)).toEqual([
+      'packages/sdk-js',
+      'packages/sdk-go',
+      'tools/lint-config',
+      'packages/app'
+    ]);
+  });
+
+  it('should not report removed paths that are excluded', () => {
+    const analysis = analyzeManifestChanges(
+      { 'tools/old': '1.0.0', 'packages/old': '1.0.0' },
+      {},
+      { paths: { exclude: ['tools/**'] } }
+    );
+
+    expect(Object.keys(analysis.changes)).toEqual(['packages/old']);
+  });
+
+  it('should record the policy of each detected path and leave out ignored paths', () => {
+    const analysis = analyzeManifestChanges(oldManifest, newManifest, {
+      policies: {
+        'tools/*': { policy: 'ignore', label: null },
+        'packages/sdk-*': { policy: 'require-label', label: 'sdk-major' }
+      }
+    });
+
+    expect(analysis.majorBumps).toEqual({
+      'packages/sdk-js': ['1.0.0', '2.0.0'],
+      'packages/app': ['1.0.0', '2.0.0']
+    });
+    expect(analysis.policies).toEqual({
+      'packages/sdk-js': { policy: 'require-label', label: 'sdk-major' },
+      'tools/lint-config': { policy: 'ignore', label: null },
+      'tools/scripts': { policy: 'ignore', label: null },
+      'packages/app': { policy: 'report', label: null }
+    });
+    expect(analysis.changes['tools/scripts'].bump).toBe('major');
+  });
+
+  it('should not detect anything when every major bump is ignored', () => {
+    const analysis = analyzeManifestChanges(
+      { 'tools/a': '1.0.0' },
+      { 'tools/a': '2.0.0' },
+      { policies: { 'tools/*': { policy: 'ignore', label: null } } }
+    );
+
+    expect(analysis.hasMajorBump).toBe(false);
+  });
+});
+
+describe('analyzeManifestChanges with versioning strategies', () => {
+  it('should classify each path with its own strategy', () => {
+    const analysis = analyzeManifestChanges(
+      {
+        'services/api': '2024.12.1',
+        'java/core': '1.9.0',
+        'packages/web': '1.0.0'
+      },
+      {
+        'services/api': '2025.1.0',
+        'java/core': '2.0.0-SNAPSHOT',
+        'packages/web': '2.0.0'
+      },
+      {
+        versioning: {
+          'services/*': createCalverStrategy('YYYY.MM.MICRO'),
+          'java/core': JAVA_SNAPSHOT_STRATEGY
+        }
+      }
+    );
+
+    expect(analysis.changes['services/api'].bump).toBe('minor');
+    expect(analysis.changes['java/core']).toEqual({
+      oldVersion: '1.9.0',
+      newVersion: '2.0.0-SNAPSHOT',
+      bump: 'major',
+      prerelease: 'enter'
+    });
+    expect(analysis.majorBumps).toEqual({
+      'java/core': ['1.9.0', '2.0.0-SNAPSHOT'],
+      'packages/web': ['1.0.0', '2.0.0']
+    });
+  });
+});
+
 describe('getManifestAtRef', () => {
   beforeEach(() => {
     vi.clearAllMocks();
@@ -542,4 +840,199 @@ describe('detectMajorBumps', () => {
       )
     ).rejects.toEqual({ status: 500, message: 'Server error' });
   });
+
+  it('should throw listing invalid entries in strict mode', async () => {
+    const source = {
+      readFile: vi.fn(async (_path: string, ref: string) =>
+        ref === 'base-sha'
+          ? '{\n  ".": "1.0.0"\n}'
+          : '{\n  ".": "one point one"\n}'
+      ),
+      listCommitMessages: vi.fn(),
+      listFiles: vi.fn(),
+      listTags: vi.fn()
+    };
+
+    await expect(
+      detectMajorBumps(
+        source,
+        '.release-please-manifest.json',
+        'base-sha',
+        'head-sha'
+      )
+    ).rejects.toThrow(
+      '⛔️ Invalid manifest:\n.release-please-manifest.json:2 (head-sha): Invalid version format: one point one for .'
+    );
+  });
+});
+
+describe('detectManifestChanges', () => {
+  const createSource = (manifests: Record<string, string>) => ({
+    readFile: vi.fn(async (_path: string, ref: string) => manifests[ref]),
+    listCommitMessages: vi.fn(),
+    listFiles: vi.fn(),
+    listTags: vi.fn()
+  });
+
+  it('should skip invalid entries on either side and report them', async () => {
+    const source = createSource({
+      'base-sha': JSON.stringify({
+        'packages/foo': '1.0.0',
+        'packages/bar': 'latest',
+        'packages/baz': '1.0.0'
+      }),
+      'head-sha': JSON.stringify({
+        'packages/foo': '2.0.0',
+        'packages/bar': '2.0.0',
+        'packages/baz': null
+      })
+    });
+
+    const { analysis, problems } = await detectManifestChanges(
+      source,
+      '.release-please-manifest.json',
+      'base-sha',
+      'head-sha'
+    );
+
+    expect(analysis.changes).toEqual({
+      'packages/foo': {
+        oldVersion: '1.0.0',
+        newVersion: '2.0.0',
+        bump: 'major',
+        prerelease: null
+      }
+    });
+    expect(problems).toEqual([
+      {
+        manifestFile: '.release-please-manifest.json',
+        ref: 'base-sha',
+        path: 'packages/bar',
+        line: 1,
+        message: 'Invalid version format: latest for packages/bar'
+      },
+      {
+        manifestFile: '.release-please-manifest.json',
+        ref: 'head-sha',
+        path: 'packages/baz',
+        line: 1,
+        message: 'Version for packages/baz must be a string, got null'
+      }
+    ]);
+  });
+
+  it('should return no changes when a manifest is not a JSON object', async () => {
+    const source = createSource({
+      'base-sha': JSON.stringify({ '.': '1.0.0' }),
+      'head-sha': '["1.0.0"]'
+    });
+
+    const { analysis, problems } = await detectManifestChanges(
+      source,
+      '.release-please-manifest.json',
+      'base-sha',
+      'head-sha'
+    );
+
+    expect(analysis.changes).toEqual({});
+    expect(problems).toHaveLength(1);
+    expect(problems[0].path).toBeNull();
+  });
+
+  it('should not report missing manifests as problems', async () => {
+    const source = createSource({
+      'head-sha': JSON.stringify({ '.': '1.0.0' })
+    });
+
+    const { problems } = await detectManifestChanges(
+      source,
+      '.release-please-manifest.json',
+      'base-sha',
+      'head-sha'
+    );
+
+    expect(problems).toEqual([]);
+  });
+});
+
+describe('resolveManifestFiles', () => {
+  const createSource = (files: string[]) => ({
+    readFile: vi.fn(),
+    listCommitMessages: vi.fn(),
+    listFiles: vi.fn().mockResolvedValue(files),
+    listTags: vi.fn()
+  });
+
+  it('should keep plain paths without listing files', async () => {
+    const source = createSource([]);
+
+    await expect(
+      resolveManifestFiles(
+        source,
+        ['apps/.release-please-manifest.json'],
+        'head-sha'
+      )
+    ).resolves.toEqual(['apps/.release-please-manifest.json']);
+    expect(source.listFiles).not.toHaveBeenCalled();
+  });
+
+  it('should expand glob patterns against the files at the ref', async () => {
+    const source = createSource([
+      'apps/.release-please-manifest.json',
+      'apps/web/package.json',
+      'libs/.release-please-manifest.json'
+    ]);
+
+    await expect(
+      resolveManifestFiles(
+        source,
+        [
+          'libs/.release-please-manifest.json',
+          '*/.release-please-manifest.json'
+        ],
+        'head-sha'
+      )
+    ).resolves.toEqual([
+      'libs/.release-please-manifest.json',
+      'apps/.release-please-manifest.json'
+    ]);
+    expect(source.listFiles).toHaveBeenCalledWith('head-sha');
+  });
+
+  it('should throw when a glob pattern matches nothing', async () => {
+    await expect(
+      resolveManifestFiles(createSource([]), ['**/manifest.json'], 'head-sha')
+    ).rejects.toThrow('⛔️ No manifest files match **/manifest.json');
+  });
+});
+
+describe('mergeAnalyses', () => {
+  it('should combine analyses keyed by manifest and path', () => {
+    const apps = analyzeManifestChanges({ web: '1.0.0' }, { web: '2.0.0' });
+    const libs = analyzeManifestChanges({ web: '1.0.0' }, { web: '1.1.0' });
+
+    const merged = mergeAnalyses({
+      'apps/manifest.json': apps,
+      'libs/manifest.json': libs
+    });
+
+    expect(merged.hasMajorBump).toBe(true);
+    expect(merged.hasMinorBump).toBe(true);
+    expect(merged.hasPatchBump).toBe(false);
+    expect(merged.majorBumps).toEqual({
+      'apps/manifest.json:web': ['1.0.0', '2.0.0']
+    });
+    expect(Object.keys(merged.changes)).toEqual([
+      'apps/manifest.json:web',
+      'libs/manifest.json:web'
+    ]);
+  });
+});
+
+describe('mergeByManifest', () => {
+  it('should prefix each path with its manifest', () => {
+    expect(
+      mergeByManifest({ 'a.json': { '.': 1 }, 'b.json': { '.': 2 } })
+    ).toEqual({ [getManifestKey('a.json', '.')]: 1, 'b.json:.': 2 });
+  });
 });
@@ -1,106 +1,403 @@
-import { context } from '@actions/github';
-import type { GitHub } from '@actions/github/lib/utils';
-import { isMajorBump } from './version';
+import { type ContentClient, getFileAtRef, listFilesAtRef } from './files';
+import { globToRegExp, isGlob } from './glob';
+import {
+  type PathFilter,
+  type PolicyConfig,
+  type PolicyRule,
+  getPathPolicy,
+  isPathIncluded
+} from './policy';
+import {
+  type ManifestProblem,
+  type ManifestValidation,
+  type ValidationMode,
+  formatProblems,
+  validateManifest
+} from './validation';
+import {
+  type BumpOptions,
+  type DetectLevel,
+  type PrereleaseTransition,
+  type VersionBump,
+  type VersioningConfig,
+  getBumpType,
+  getPrereleaseTransition,
+  getVersioningStrategy,
+  isMajorBump,
+  meetsDetectLevel
+} from './version';
 
-type ReleasePleaseManifest = Record<string, string>;
+export type ReleasePleaseManifest = Record<string, string>;
 
-interface ManifestAnalysis {
+export type BumpType = VersionBump | 'added' | 'removed';
+
+export interface ManifestChange {
+  oldVersion: string | null;
+  newVersion: string | null;
+  bump: BumpType;
+  prerelease: PrereleaseTransition | null;
+}
+
+export interface AnalysisOptions extends BumpOptions {
+  detectLevel?: DetectLevel;
+  versioning?: VersioningConfig;
+  paths?: PathFilter;
+  policies?: PolicyConfig;
+}
+
+export interface DetectOptions extends AnalysisOptions {
+  validation?: ValidationMode;
+}
+
+export interface ManifestDetection {
+  analysis: ManifestAnalysis;
+  problems: ManifestProblem[];
+}
+
+export interface ManifestAnalysis {
   hasMajorBump: boolean;
+  hasMinorBump: boolean;
+  hasPatchBump: boolean;
+  hasMajorPrerelease: boolean;
   majorBumps: Record<string, [string, string]>;
+  majorPrereleases: Record<string, [string, string]>;
+  changes: Record<string, ManifestChange>;
+  policies: Record<string, PolicyRule>;
 }
 
 /**
  * Analyze changes between two manifest versions
  * @param oldManifest - Previous manifest state
  * @param newManifest - New manifest state
- * @returns Object containing `hasMajorBump` (boolean) and `majorBumps` (record mapping package paths to [oldVersion, newVersion] tuples for packages with major version changes only)
+ * @param options - Breaking semantics, prerelease handling, detection level, per-path versioning strategies, path filters and per-path policies (defaults to `strict-major`, `report`, `major`, semver, every path and `report`)
+ * @returns Object containing `hasMajorBump`/`hasMinorBump`/`hasPatchBump`/`hasMajorPrerelease` (booleans), `majorBumps` (record mapping package paths to [oldVersion, newVersion] tuples for packages with changes at or above the detection level, except `ignore` paths), `majorPrereleases` (record of paths entering or graduating a major prerelease line, with `flag` prerelease handling only), `changes` (record mapping every changed package path to its old/new versions, bump type and prerelease transition) and `policies` (record mapping every path with a change at or above the detection level to the policy that handled it)
  */
 export function analyzeManifestChanges(
   oldManifest: ReleasePleaseManifest | null,
-  newManifest: ReleasePleaseManifest | null
+  newManifest: ReleasePleaseManifest | null,
+  options: AnalysisOptions = {}
 ): ManifestAnalysis {
+  const { detectLevel = 'major' } = options;
   const majorBumps: Record<string, [string, string]> = {};
+  const majorPrereleases: Record<string, [string, string]> = {};
+  const changes: Record<string, ManifestChange> = {};
+  const policies: Record<string, PolicyRule> = {};
+  const included = (path: string) => isPathIncluded(path, options.paths ?? {});
 
   if (!oldManifest || !newManifest) {
     return {
       hasMajorBump: false,
-      majorBumps: {}
+      hasMinorBump: false,
+      hasPatchBump: false,
+      hasMajorPrerelease: false,
+      majorBumps: {},
+      majorPrereleases: {},
+      changes: {},
+      policies: {}
     };
   }
 
   for (const [path, newVersion] of Object.entries(newManifest)) {
-    const oldVersion = oldManifest?.[path];
+    const oldVersion = oldManifest[path];
+
+    if (!included(path)) {
+      continue;
+    }
+
+    if (!oldVersion) {
+      changes[path] = {
+        oldVersion: null,
+        newVersion,
+        bump: 'added',
+        prerelease: null
+      };
+      continue;
+    }
+
+    if (oldVersion === newVersion) {
+      continue;
+    }
+
+    const strategy = getVersioningStrategy(options.versioning ?? {}, path);
+    const bumpOptions = { ...options, strategy };
+    const bump = getBumpType(oldVersion, newVersion, bumpOptions);
+
+    if (!bump) {
+      continue;
+    }
+
+    const prerelease = getPrereleaseTransition(
+      oldVersion,
+      newVersion,
+      strategy
+    );
+
+    changes[path] = { oldVersion, newVersion, bump, prerelease };
+
+    const rule = getPathPolicy(options.policies ?? {}, path);
+
+    if (meetsDetectLevel(bump, detectLevel)) {
+      policies[path] = rule;
+
+      if (rule.policy !== 'ignore') {
+        majorBumps[path] = [oldVersion, newVersion];
+      }
+    }
 
     if (
-      oldVersion &&
-      oldVersion !== newVersion &&
-      isMajorBump(oldVersion, newVersion)
+      rule.policy !== 'ignore' &&
+      options.prerelease === 'flag' &&
+      (prerelease === 'enter' || prerelease === 'graduate') &&
+      isMajorBump(oldVersion, newVersion, {
+        ...bumpOptions,
+        prerelease: 'report'
+      })
     ) {
-      majorBumps[path] = [oldVersion, newVersion];
+      majorPrereleases[path] = [oldVersion, newVersion];
     }
   }
 
+  for (const [path, oldVersion] of Object.entries(oldManifest)) {
+    if (!(path in newManifest) && included(path)) {
+      changes[path] = {
+        oldVersion,
+        newVersion: null,
+        bump: 'removed',
+        prerelease: null
+      };
+    }
+  }
+
+  const bumps = Object.values(changes).map((change) => change.bump);
+
   return {
     hasMajorBump: Object.keys(majorBumps).length > 0,
-    majorBumps
+    hasMinorBump: bumps.includes('minor'),
+    hasPatchBump: bumps.includes('patch'),
+    hasMajorPrerelease: Object.keys(majorPrereleases).length > 0,
+    majorBumps,
+    majorPrereleases,
+    changes,
+    policies
   };
 }
 
 /**
  * Get the content of the manifest file from a specific ref
- * @param octokit - GitHub API client
+ * @param client - GitHub API client or file source
  * @param manifestPath - Path to the manifest file
  * @param ref - Git ref (commit SHA, branch name, etc.)
  * @returns Parsed manifest object or null if file doesn't exist
  */
 export async function getManifestAtRef(
-  octokit: InstanceType<typeof GitHub>,
+  client: ContentClient,
   manifestPath: string,
   ref: string
 ): Promise<ReleasePleaseManifest | null> {
-  try {
-    const { data } = await octokit.rest.repos.getContent({
-      owner: context.repo.owner,
-      repo: context.repo.repo,
-      path: manifestPath,
-      ref
-    });
-
-    if ('content' in data && data.content) {
-      const content = Buffer.from(data.content, 'base64').toString('utf-8');
-      return JSON.parse(content) as ReleasePleaseManifest;
-    }
+  const content = await getFileAtRef(client, manifestPath, ref);
 
-    return null;
-  } catch (error) {
-    // File doesn't exist at this ref
-    if (error && typeof error === 'object' && 'status' in error) {
-      if (error.status === 404) {
-        return null;
-      }
+  return content ? (JSON.parse(content) as ReleasePleaseManifest) : null;
+}
+
+/**
+ * Get the manifest file from a specific ref, validating each entry
+ * @param client - GitHub API client or file source
+ * @param manifestPath - Path to the manifest file
+ * @param ref - Git ref (commit SHA, branch name, etc.)
+ * @param versioning - Per-path versioning strategies used to validate versions
+ * @returns Valid entries and problems, with a null manifest and no problems if the file doesn't exist
+ */
+export async function readManifestAtRef(
+  client: ContentClient,
+  manifestPath: string,
+  ref: string,
+  versioning: AnalysisOptions['versioning'] = {}
+): Promise<ManifestValidation> {
+  const content = await getFileAtRef(client, manifestPath, ref);
+
+  return content
+    ? validateManifest(content, manifestPath, ref, versioning)
+    : { manifest: null, problems: [] };
+}
+
+/**
+ * Detect version bumps in a pull request, skipping invalid manifest entries
+ * @param client - GitHub API client or file source
+ * @param manifestPath - Path to the manifest file
+ * @param baseSha - Base commit SHA
+ * @param headSha - Head commit SHA
+ * @param options - Analysis options passed to `analyzeManifestChanges`
+ * @returns Analysis of the valid entries, and problems found in either manifest
+ */
+export async function detectManifestChanges(
+  client: ContentClient,
+  manifestPath: string,
+  baseSha: string,
+  headSha: string,
+  options: AnalysisOptions = {}
+): Promise<ManifestDetection> {
+  const [base, head] = await Promise.all([
+    readManifestAtRef(client, manifestPath, baseSha, options.versioning),
+    readManifestAtRef(client, manifestPath, headSha, options.versioning)
+  ]);
+  const problems = [...base.problems, ...head.problems];
+
+  // Drop a path from both sides so an invalid entry isn't reported as added or removed
+  for (const { path } of problems) {
+    if (path !== null) {
+      delete base.manifest?.[path];
+      delete head.manifest?.[path];
     }
-    throw error;
   }
+
+  return {
+    analysis: analyzeManifestChanges(base.manifest, head.manifest, options),
+    problems
+  };
 }
 
 /**
  * Detect major version bumps in a pull request
- * @param octokit - GitHub API client
+ * @param client - GitHub API client or file source
  * @param manifestPath - Path to the manifest file
  * @param baseSha - Base commit SHA
  * @param headSha - Head commit SHA
+ * @param options - Analysis options passed to `analyzeManifestChanges`, and the validation mode (defaults to `strict`)
  * @returns Analysis of manifest changes
+ * @throws Error listing every invalid entry in `strict` mode
  */
 export async function detectMajorBumps(
-  octokit: InstanceType<typeof GitHub>,
+  client: ContentClient,
   manifestPath: string,
   baseSha: string,
-  headSha: string
+  headSha: string,
+  options: DetectOptions = {}
 ): Promise<ManifestAnalysis> {
-  const [oldManifest, newManifest] = await Promise.all([
-    getManifestAtRef(octokit, manifestPath, baseSha),
-    getManifestAtRef(octokit, manifestPath, headSha)
-  ]);
+  const { analysis, problems } = await detectManifestChanges(
+    client,
+    manifestPath,
+    baseSha,
+    headSha,
+    options
+  );
+
+  if (options.validation !== 'lenient' && problems.length > 0) {
+    throw new Error(`⛔️ Invalid manifest:\n${formatProblems(problems)}`);
+  }
+
+  return analysis;
+}
+
+/**
+ * Expand a list of manifest paths and glob patterns into manifest files
+ * @param client - GitHub API client or file source
+ * @param patterns - Manifest paths and glob patterns
+ * @param ref - Git ref to match glob patterns against
+ * @returns Manifest paths, without duplicates, in the order they were matched
+ * @throws Error if a glob pattern doesn't match any files
+ */
+export async function resolveManifestFiles(
+  client: ContentClient,
+  patterns: string[],
+  ref: string
+): Promise<string[]> {
+  const manifestFiles = new Set<string>();
+  let files: string[] | null = null;
+
+  for (const pattern of patterns) {
+    if (!isGlob(pattern)) {
+      manifestFiles.add(pattern);
+      continue;
+    }
+
+    files = files ?? (await listFilesAtRef(client, ref));
+    const regExp = globToRegExp(pattern);
+    const matches = files.filter((file) => regExp.test(file));
+
+    if (matches.length === 0) {
+      throw new Error(`⛔️ No manifest files match ${pattern}`);
+    }
+
+    for (const match of matches) {
+      manifestFiles.add(match);
+    }
+  }
+
+  return [...manifestFiles];
+}
+
+/**
+ * Get the key identifying a path across several manifests
+ * @param manifestFile - Manifest file the path belongs to
+ * @param path - Package path from the manifest
+ * @returns Key in the form `<manifest file>:<path>`
+ */
+export function getManifestKey(manifestFile: string, path: string): string {
+  return `${manifestFile}:${path}`;
+}
+
+/**
+ * Merge per-manifest records into one record keyed by manifest and path
+ * @param records - Record mapping each manifest file to a record keyed by path
+ * @returns Record keyed by `getManifestKey`
+ */
+export function mergeByManifest<T>(
+  records: Record<string, Record<string, T>>
+): Record<string, T> {
+  const merged: Record<string, T> = {};
+
+  for (const [manifestFile, record] of Object.entries(records)) {
+    for (const [path, value] of Object.entries(record)) {
+      merged[getManifestKey(manifestFile, path)] = value;
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Merge the analyses of several manifests into one analysis keyed by manifest and path
+ * @param analyses - Record mapping each manifest file to its analysis
+ * @returns Combined analysis
+ */
+export function mergeAnalyses(
+  analyses: Record<string, ManifestAnalysis>
+): ManifestAnalysis {
+  const results = Object.values(analyses);
+
+  return {
+    hasMajorBump: results.some(({ hasMajorBump }) => hasMajorBump),
+    hasMinorBump: results.some(({ hasMinorBump }) => hasMinorBump),
+    hasPatchBump: results.some(({ hasPatchBump }) => hasPatchBump),
+    hasMajorPrerelease: results.some(
+      ({ hasMajorPrerelease }) => hasMajorPrerelease
+    ),
+    majorBumps: mergeByManifest(
+      mapValues(analyses, ({ majorBumps }) => majorBumps)
+    ),
+    majorPrereleases: mergeByManifest(
+      mapValues(analyses, ({ majorPrereleases }) => majorPrereleases)
+    ),
+    changes: mergeByManifest(mapValues(analyses, ({ changes }) => changes)),
+    policies: mergeByManifest(mapValues(analyses, ({ policies }) => policies))
+  };
+}
+
+/**
+ * Map the values of a record
+ * @param record - Record to map
+ * @param fn - Function applied to each value
+ * @returns Record with the same keys and mapped values
+ */
+function mapValues<T, U>(
+  record: Record<string, T>,
+  fn: (value: T) => U
+): Record<string, U> {
+  const mapped: Record<string, U> = {};
+
+  for (const [key, value] of Object.entries(record)) {
+    mapped[key] = fn(value);
+  }
 
-  return analyzeManifestChanges(oldManifest, newManifest);
+  return mapped;
 }
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeManifestChanges } from './manifest';
+import { getBumpMatrix } from './matrix';
+
+describe('getBumpMatrix', () => {
+  const analysis = analyzeManifestChanges(
+    {
+      'packages/foo': '1.2.3',
+      'packages/bar': '1.0.0',
+      'packages/baz': '0.1.0',
+      'packages/old': '1.0.0'
+    },
+    {
+      'packages/foo': '2.0.0',
+      'packages/bar': '1.1.0',
+      'packages/baz': '0.1.1',
+      'packages/new': '1.0.0'
+    }
+  );
+
+  it('should include one entry per package at or above the level', () => {
+    expect(
+      getBumpMatrix(
+        analysis,
+        {
+          'packages/foo': {
+            oldVersion: '1.2.3',
+            newVersion: '2.0.0',
+            bump: 'major',
+            component: 'foo',
+            packageName: null,
+            tag: 'foo-v2.0.0',
+            releaseType: null,
+            changelogPath: 'packages/foo/CHANGELOG.md'
+          }
+        },
+        'major'
+      )
+    ).toEqual({
+      include: [
+        {
+          path: 'packages/foo',
+          component: 'foo',
+          old: '1.2.3',
+          new: '2.0.0',
+          bump: 'major'
+        }
+      ]
+    });
+  });
+
+  it('should include lower bumps without added or removed packages', () => {
+    expect(
+      getBumpMatrix(analysis, {}, 'patch').include.map(({ path, bump }) => [
+        path,
+        bump
+      ])
+    ).toEqual([
+      ['packages/foo', 'major'],
+      ['packages/bar', 'minor'],
+      ['packages/baz', 'patch']
+    ]);
+  });
+
+  it('should leave out paths ignored by their policy', () => {
+    const ignored = analyzeManifestChanges(
+      { 'tools/lint': '1.0.0', app: '1.0.0' },
+      { 'tools/lint': '2.0.0', app: '1.1.0' },
+      { policies: { 'tools/*': { policy: 'ignore', label: null } } }
+    );
+
+    expect(getBumpMatrix(ignored, {}, 'minor').include).toEqual([
+      {
+        path: 'app',
+        component: null,
+        old: '1.0.0',
+        new: '1.1.0',
+        bump: 'minor'
+      }
+    ]);
+  });
+
+  it('should return an empty matrix when nothing meets the level', () => {
+    const minorOnly = analyzeManifestChanges(
+      { '.': '1.0.0' },
+      { '.': '1.1.0' }
+    );
+
+    expect(getBumpMatrix(minorOnly, {}, 'major')).toEqual({ include: [] });
+  });
+});
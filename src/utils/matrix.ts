@@ -0,0 +1,52 @@
+import type { PackageDetails } from './config';
+import type { BumpType, ManifestAnalysis } from './manifest';
+import { type DetectLevel, meetsDetectLevel } from './version';
+
+export interface MatrixEntry {
+  manifest?: string;
+  path: string;
+  component: string | null;
+  old: string;
+  new: string;
+  bump: BumpType;
+}
+
+export interface BumpMatrix {
+  include: MatrixEntry[];
+}
+
+/**
+ * Build a GitHub Actions job matrix with one entry per bumped package
+ * @param analysis - Manifest analysis
+ * @param packages - Resolved package details, used for components
+ * @param level - Lowest bump level included in the matrix, leaving out paths with an `ignore` policy
+ * @returns Matrix in the `{"include": [...]}` shape accepted by `strategy.matrix`
+ */
+export function getBumpMatrix(
+  analysis: ManifestAnalysis,
+  packages: Record<string, PackageDetails>,
+  level: DetectLevel
+): BumpMatrix {
+  const include: MatrixEntry[] = [];
+
+  for (const [path, change] of Object.entries(analysis.changes)) {
+    if (
+      !change.oldVersion ||
+      !change.newVersion ||
+      !meetsDetectLevel(change.bump, level) ||
+      analysis.policies[path]?.policy === 'ignore'
+    ) {
+      continue;
+    }
+
+    include.push({
+      path,
+      component: packages[path]?.component ?? null,
+      old: change.oldVersion,
+      new: change.newVersion,
+      bump: change.bump
+    });
+  }
+
+  return { include };
+}
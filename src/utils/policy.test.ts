@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeManifestChanges } from './manifest';
+import {
+  evaluatePolicies,
+  getPathPolicy,
+  isPathIncluded,
+  parsePolicyConfig
+} from './policy';
+
+describe('parsePolicyConfig', () => {
+  it('should parse policies with optional labels', () => {
+    expect(
+      parsePolicyConfig([
+        'tools/*: ignore',
+        'packages/sdk-*: require-label sdk-major-approved',
+        'packages/core: fail'
+      ])
+    ).toEqual({
+      'tools/*': { policy: 'ignore', label: null },
+      'packages/sdk-*': {
+        policy: 'require-label',
+        label: 'sdk-major-approved'
+      },
+      'packages/core': { policy: 'fail', label: null }
+    });
+  });
+
+  it('should throw on unknown policies', () => {
+    expect(() => parsePolicyConfig(['a: block'])).toThrow(
+      'Invalid path policy "block" for a, expected one of: report, ignore, warn, require-label, fail'
+    );
+  });
+
+  it('should throw when require-label has no label', () => {
+    expect(() => parsePolicyConfig(['sdk: require-label'])).toThrow(
+      'Invalid path policy for sdk, require-label needs a label'
+    );
+  });
+
+  it('should throw on malformed entries', () => {
+    expect(() => parsePolicyConfig(['ignore'])).toThrow(
+      'Invalid path policy entry "ignore", expected "<path>: <policy>"'
+    );
+  });
+});
+
+describe('getPathPolicy', () => {
+  it('should prefer exact paths, then globs, then report', () => {
+    const config = parsePolicyConfig(['tools/*: ignore', 'tools/sdk: warn']);
+
+    expect(getPathPolicy(config, 'tools/sdk').policy).toBe('warn');
+    expect(getPathPolicy(config, 'tools/lint').policy).toBe('ignore');
+    expect(getPathPolicy(config, 'packages/app')).toEqual({
+      policy: 'report',
+      label: null
+    });
+  });
+});
+
+describe('isPathIncluded', () => {
+  it.each([
+    ['packages/app', {}, true],
+    ['packages/app', { include: ['packages/*'] }, true],
+    ['tools/lint', { include: ['packages/*'] }, false],
+    ['tools/lint', { exclude: ['tools/**'] }, false],
+    ['packages/app', { include: ['**'], exclude: ['packages/app'] }, false]
+  ])('should filter %s with %j', (path, filter, expected) => {
+    expect(isPathIncluded(path, filter)).toBe(expected);
+  });
+});
+
+describe('evaluatePolicies', () => {
+  const analysis = analyzeManifestChanges(
+    { sdk: '1.0.0', core: '1.0.0', docs: '1.0.0', app: '1.0.0' },
+    { sdk: '2.0.0', core: '2.0.0', docs: '2.0.0', app: '2.0.0' },
+    {
+      policies: parsePolicyConfig([
+        'sdk: require-label sdk-approved',
+        'core: fail',
+        'docs: warn'
+      ])
+    }
+  );
+
+  it('should warn, fail and check labels per policy', () => {
+    expect(evaluatePolicies(analysis, [])).toEqual({
+      warnings: ['docs has a major bump (1.0.0 → 2.0.0)'],
+      failures: [
+        'sdk has a major bump (1.0.0 → 2.0.0), which needs the "sdk-approved" label',
+        'core has a major bump (1.0.0 → 2.0.0), which its path policy forbids'
+      ],
+      skipped: []
+    });
+  });
+
+  it('should pass require-label paths that have their label', () => {
+    expect(evaluatePolicies(analysis, ['sdk-approved']).failures).toEqual([
+      'core has a major bump (1.0.0 → 2.0.0), which its path policy forbids'
+    ]);
+  });
+
+  it('should skip require-label paths outside pull requests', () => {
+    expect(evaluatePolicies(analysis, null).skipped).toEqual(['sdk']);
+  });
+});
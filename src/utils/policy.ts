@@ -0,0 +1,137 @@
+import { getPathEntry, matchesAny } from './glob';
+import type { ManifestAnalysis } from './manifest';
+
+export type PathPolicy =
+  | 'report'
+  | 'ignore'
+  | 'warn'
+  | 'require-label'
+  | 'fail';
+
+export const PATH_POLICIES: PathPolicy[] = [
+  'report',
+  'ignore',
+  'warn',
+  'require-label',
+  'fail'
+];
+
+export interface PolicyRule {
+  policy: PathPolicy;
+  label: string | null;
+}
+
+export type PolicyConfig = Record<string, PolicyRule>;
+
+export interface PathFilter {
+  include?: string[];
+  exclude?: string[];
+}
+
+export interface PolicyResults {
+  warnings: string[];
+  failures: string[];
+  skipped: string[];
+}
+
+const DEFAULT_RULE: PolicyRule = { policy: 'report', label: null };
+
+/**
+ * Parse per-path policy entries
+ * @param entries - Entries in the form `<path or glob>: <policy> [label]`, where `require-label` needs a label
+ * @returns Policy rules keyed by path or glob pattern
+ * @throws Error if an entry is malformed, names an unknown policy or is missing a label
+ */
+export function parsePolicyConfig(entries: string[]): PolicyConfig {
+  const config: PolicyConfig = {};
+
+  for (const entry of entries) {
+    const match = entry.match(/^(.+?):\s*(\S+)(?:\s+(.+))?$/);
+
+    if (!match) {
+      throw new Error(
+        `Invalid path policy entry "${entry}", expected "<path>: <policy>"`
+      );
+    }
+
+    const [, path, policy, label] = match;
+
+    if (!PATH_POLICIES.includes(policy as PathPolicy)) {
+      throw new Error(
+        `Invalid path policy "${policy}" for ${path}, expected one of: ${PATH_POLICIES.join(', ')}`
+      );
+    }
+
+    if (policy === 'require-label' && !label) {
+      throw new Error(
+        `Invalid path policy for ${path}, require-label needs a label (e.g. "${path}: require-label sdk-major-approved")`
+      );
+    }
+
+    config[path.trim()] = {
+      policy: policy as PathPolicy,
+      label: label?.trim() ?? null
+    };
+  }
+
+  return config;
+}
+
+/**
+ * Get the policy rule for a manifest path
+ * @param config - Policy rules keyed by path or glob pattern
+ * @param path - Package path from the manifest
+ * @returns The rule of the exact path, else of the first matching glob, else `report`
+ */
+export function getPathPolicy(config: PolicyConfig, path: string): PolicyRule {
+  return getPathEntry(config, path) ?? DEFAULT_RULE;
+}
+
+/**
+ * Check whether a path passes the include and exclude filters
+ * @param path - Package path from the manifest
+ * @param filter - Glob patterns of paths to include (all paths when empty) and exclude
+ * @returns true if the path should be analyzed
+ */
+export function isPathIncluded(path: string, filter: PathFilter): boolean {
+  const { include = [], exclude = [] } = filter;
+
+  return (
+    (include.length === 0 || matchesAny(path, include)) &&
+    !matchesAny(path, exclude)
+  );
+}
+
+/**
+ * Check the policies that handled each detected path
+ * @param analysis - Manifest analysis
+ * @param labels - Labels on the pull request, or null outside pull requests
+ * @returns Warnings for `warn` paths, failures for `fail` paths and `require-label` paths without their label, and `require-label` paths skipped outside pull requests
+ */
+export function evaluatePolicies(
+  analysis: ManifestAnalysis,
+  labels: string[] | null
+): PolicyResults {
+  const results: PolicyResults = { warnings: [], failures: [], skipped: [] };
+
+  for (const [path, { policy, label }] of Object.entries(analysis.policies)) {
+    const change = analysis.changes[path];
+    const description = `${path} has a ${change.bump} bump (${change.oldVersion} → ${change.newVersion})`;
+
+    if (policy === 'warn') {
+      results.warnings.push(description);
+    } else if (policy === 'fail') {
+      results.failures.push(`${description}, which its path policy forbids`);
+    } else if (policy === 'require-label') {
+      if (labels === null) {
+        results.skipped.push(path);
+      } else if (label && !labels.includes(label)) {
+        results.failures.push(
+          `${description}, which needs the "${label}" label`
+        );
+      }
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,113 @@
+import type { Context } from '@actions/github/lib/context';
+import { describe, expect, it } from 'vitest';
+import { getEventRefs, resolveHeadRef, resolveRefs } from './refs';
+
+const createContext = (
+  eventName: string,
+  payload: Record<string, unknown>
+): Context =>
+  ({
+    eventName,
+    sha: 'context-sha',
+    payload
+  }) as unknown as Context;
+
+describe('getEventRefs', () => {
+  it('should use the pull request base and head SHAs', () => {
+    const ctx = createContext('pull_request', {
+      pull_request: { base: { sha: 'base-sha' }, head: { sha: 'head-sha' } }
+    });
+
+    expect(getEventRefs(ctx)).toEqual({
+      baseRef: 'base-sha',
+      headRef: 'head-sha'
+    });
+  });
+
+  it('should use before and after on push events', () => {
+    const ctx = createContext('push', {
+      before: 'before-sha',
+      after: 'after-sha'
+    });
+
+    expect(getEventRefs(ctx)).toEqual({
+      baseRef: 'before-sha',
+      headRef: 'after-sha'
+    });
+  });
+
+  it('should ignore the null before SHA when a branch is first pushed', () => {
+    const ctx = createContext('push', {
+      before: '0000000000000000000000000000000000000000',
+      after: 'after-sha'
+    });
+
+    expect(getEventRefs(ctx)).toEqual({
+      baseRef: undefined,
+      headRef: 'after-sha'
+    });
+  });
+
+  it('should use base_sha and head_sha on merge_group events', () => {
+    const ctx = createContext('merge_group', {
+      merge_group: { base_sha: 'base-sha', head_sha: 'head-sha' }
+    });
+
+    expect(getEventRefs(ctx)).toEqual({
+      baseRef: 'base-sha',
+      headRef: 'head-sha'
+    });
+  });
+
+  it.each(['workflow_dispatch', 'schedule'])(
+    'should only default the head ref on %s events',
+    (eventName) => {
+      expect(getEventRefs(createContext(eventName, {}))).toEqual({
+        headRef: 'context-sha'
+      });
+    }
+  );
+});
+
+describe('resolveHeadRef', () => {
+  it('should not need a base ref', () => {
+    expect(resolveHeadRef(createContext('schedule', {}))).toBe('context-sha');
+    expect(resolveHeadRef(createContext('schedule', {}), 'main')).toBe('main');
+  });
+
+  it('should throw when the head ref cannot be determined', () => {
+    expect(() => resolveHeadRef(createContext('merge_group', {}))).toThrow(
+      '⛔️ Unable to determine the head ref for merge_group events, set the head_ref input'
+    );
+  });
+});
+
+describe('resolveRefs', () => {
+  it('should prefer overrides over event defaults', () => {
+    const ctx = createContext('push', {
+      before: 'before-sha',
+      after: 'after-sha'
+    });
+
+    expect(resolveRefs(ctx, { baseRef: 'main', headRef: '' })).toEqual({
+      baseRef: 'main',
+      headRef: 'after-sha'
+    });
+  });
+
+  it('should throw when the base ref cannot be determined', () => {
+    expect(() => resolveRefs(createContext('schedule', {}))).toThrow(
+      '⛔️ Unable to determine the base ref for schedule events, set the base_ref input'
+    );
+  });
+
+  it('should throw when the head ref cannot be determined', () => {
+    const ctx = createContext('merge_group', {
+      merge_group: { base_sha: 'base-sha' }
+    });
+
+    expect(() => resolveRefs(ctx)).toThrow(
+      '⛔️ Unable to determine the head ref for merge_group events, set the head_ref input'
+    );
+  });
+});
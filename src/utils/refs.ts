@@ -0,0 +1,88 @@
+import type { Context } from '@actions/github/lib/context';
+
+export interface ComparisonRefs {
+  baseRef: string;
+  headRef: string;
+}
+
+export interface RefOverrides {
+  baseRef?: string;
+  headRef?: string;
+}
+
+const NULL_SHA = /^0+$/;
+
+/**
+ * Get the default base and head refs for the triggering event
+ * @param ctx - GitHub Actions context
+ * @returns Refs taken from the event payload (either may be undefined)
+ */
+export function getEventRefs(ctx: Context): RefOverrides {
+  const { payload } = ctx;
+
+  if (payload.pull_request) {
+    return {
+      baseRef: payload.pull_request.base.sha,
+      headRef: payload.pull_request.head.sha
+    };
+  }
+
+  switch (ctx.eventName) {
+    case 'push':
+      return {
+        // `before` is all zeros when a branch is first pushed
+        baseRef: NULL_SHA.test(payload.before ?? '')
+          ? undefined
+          : payload.before,
+        headRef: payload.after
+      };
+    case 'merge_group':
+      return {
+        baseRef: payload.merge_group?.base_sha,
+        headRef: payload.merge_group?.head_sha
+      };
+    default:
+      return { headRef: ctx.sha };
+  }
+}
+
+/**
+ * Resolve the head ref to compare, preferring an explicit override over the event default
+ * @param ctx - GitHub Actions context
+ * @param override - Head ref provided as an action input
+ * @returns Head ref
+ * @throws Error if the ref cannot be determined
+ */
+export function resolveHeadRef(ctx: Context, override?: string): string {
+  const headRef = override || getEventRefs(ctx).headRef;
+
+  if (!headRef) {
+    throw new Error(
+      `⛔️ Unable to determine the head ref for ${ctx.eventName} events, set the head_ref input`
+    );
+  }
+
+  return headRef;
+}
+
+/**
+ * Resolve the base and head refs to compare, preferring explicit overrides over event defaults
+ * @param ctx - GitHub Actions context
+ * @param overrides - Refs provided as action inputs
+ * @returns Base and head refs
+ * @throws Error if either ref cannot be determined
+ */
+export function resolveRefs(
+  ctx: Context,
+  overrides: RefOverrides = {}
+): ComparisonRefs {
+  const baseRef = overrides.baseRef || getEventRefs(ctx).baseRef;
+
+  if (!baseRef) {
+    throw new Error(
+      `⛔️ Unable to determine the base ref for ${ctx.eventName} events, set the base_ref input`
+    );
+  }
+
+  return { baseRef, headRef: resolveHeadRef(ctx, overrides.headRef) };
+}
@@ -0,0 +1,238 @@
+import type { Context } from '@actions/github/lib/context';
+import type { GitHub } from '@actions/github/lib/utils';
+import { describe, expect, it, vi } from 'vitest';
+import {
+  findMergedReleasePullRequest,
+  getPullRequestInfo,
+  getReleasePullRequestFromCommit,
+  isDefaultBranchPush,
+  isReleasePullRequest,
+  titlePatternToRegExp
+} from './release';
+
+const pullRequest = (overrides: Record<string, unknown> = {}) => ({
+  title: 'feat: add a thing',
+  headRef: 'feature/thing',
+  labels: [],
+  ...overrides
+});
+
+describe('getPullRequestInfo', () => {
+  it('should read the title, head branch and labels from the payload', () => {
+    expect(
+      getPullRequestInfo({
+        payload: {
+          pull_request: {
+            number: 1,
+            title: 'chore(main): release 2.0.0',
+            head: { ref: 'release-please--branches--main' },
+            labels: [{ name: 'autorelease: pending' }]
+          }
+        }
+      } as unknown as Context)
+    ).toEqual({
+      title: 'chore(main): release 2.0.0',
+      headRef: 'release-please--branches--main',
+      labels: ['autorelease: pending']
+    });
+  });
+
+  it('should return null outside pull requests', () => {
+    expect(getPullRequestInfo({ payload: {} } as Context)).toBeNull();
+  });
+});
+
+describe('titlePatternToRegExp', () => {
+  it('should match titles generated from a pattern', () => {
+    const regExp = titlePatternToRegExp(
+      'chore${scope}: release${component} ${version}'
+    );
+
+    expect(regExp.test('chore(main): release 2.0.0')).toBe(true);
+    expect(regExp.test('chore(main): release api 2.0.0-beta.1')).toBe(true);
+    expect(regExp.test('chore: release v1.0.0')).toBe(true);
+    expect(regExp.test('chore(main): release notes')).toBe(false);
+  });
+
+  it('should treat other characters literally', () => {
+    const regExp = titlePatternToRegExp('[release] ${version}');
+
+    expect(regExp.test('[release] 1.2.3')).toBe(true);
+    expect(regExp.test('r 1.2.3')).toBe(false);
+  });
+});
+
+describe('isReleasePullRequest', () => {
+  it('should detect release-please branches', () => {
+    expect(
+      isReleasePullRequest(
+        pullRequest({ headRef: 'release-please--branches--main' })
+      )
+    ).toBe(true);
+    expect(
+      isReleasePullRequest(
+        pullRequest({
+          headRef: 'release-please--branches--main--components--api'
+        })
+      )
+    ).toBe(true);
+  });
+
+  it('should detect the autorelease pending label', () => {
+    expect(
+      isReleasePullRequest(pullRequest({ labels: ['autorelease: pending'] }))
+    ).toBe(true);
+  });
+
+  it('should detect default release titles', () => {
+    expect(
+      isReleasePullRequest(pullRequest({ title: 'chore(main): release 1.2.3' }))
+    ).toBe(true);
+    expect(
+      isReleasePullRequest(pullRequest({ title: 'chore: release main' }))
+    ).toBe(true);
+  });
+
+  it('should detect titles matching the configured pattern', () => {
+    const title = 'release: api v2.0.0';
+
+    expect(isReleasePullRequest(pullRequest({ title }))).toBe(false);
+    expect(
+      isReleasePullRequest(pullRequest({ title }), {
+        'pull-request-title-pattern': 'release:${component} ${version}'
+      })
+    ).toBe(true);
+  });
+
+  it('should not match other pull requests', () => {
+    expect(isReleasePullRequest(pullRequest())).toBe(false);
+  });
+});
+
+describe('isDefaultBranchPush', () => {
+  const push = (ref: string, eventName = 'push') =>
+    ({
+      eventName,
+      payload: { ref, repository: { default_branch: 'main' } }
+    }) as unknown as Context;
+
+  it('should only match pushes to the default branch', () => {
+    expect(isDefaultBranchPush(push('refs/heads/main'))).toBe(true);
+    expect(isDefaultBranchPush(push('refs/heads/feature'))).toBe(false);
+    expect(isDefaultBranchPush(push('refs/tags/v1.0.0'))).toBe(false);
+    expect(isDefaultBranchPush(push('refs/heads/main', 'release'))).toBe(false);
+  });
+});
+
+describe('getReleasePullRequestFromCommit', () => {
+  it.each([
+    ['chore(main): release 2.0.0 (#42)', 42],
+    ['chore: release main (#7)\n\n* feat!: drop node 16', 7],
+    [
+      'Merge pull request #12 from acme/release-please--branches--main--components--foo',
+      12
+    ]
+  ])('should read the pull request number from "%s"', (message, number) => {
+    expect(getReleasePullRequestFromCommit(message)).toBe(number);
+  });
+
+  it.each([
+    ['feat: add a thing (#42)'],
+    ['Merge pull request #12 from acme/feature/thing'],
+    ['chore(main): release 2.0.0'],
+    ['']
+  ])('should not match "%s"', (message) => {
+    expect(getReleasePullRequestFromCommit(message)).toBeNull();
+  });
+
+  it('should use custom title patterns from the config', () => {
+    expect(
+      getReleasePullRequestFromCommit('ship: 2.0.0 (#5)', {
+        'pull-request-title-pattern': 'ship: ${version}'
+      })
+    ).toBe(5);
+  });
+});
+
+describe('findMergedReleasePullRequest', () => {
+  const ctx = (message = '') =>
+    ({
+      repo: { owner: 'test-owner', repo: 'test-repo' },
+      payload: { head_commit: { message } }
+    }) as unknown as Context;
+
+  const createOctokit = (data: unknown[]) => ({
+    rest: {
+      repos: {
+        listPullRequestsAssociatedWithCommit: vi
+          .fn()
+          .mockResolvedValue({ data })
+      }
+    }
+  });
+
+  const associated = (overrides: Record<string, unknown> = {}) => ({
+    number: 42,
+    title: 'chore(main): release 2.0.0',
+    head: { ref: 'release-please--branches--main' },
+    labels: [{ name: 'autorelease: pending' }],
+    merged_at: '2024-01-01T00:00:00Z',
+    ...overrides
+  });
+
+  it('should find the merged release pull request through the API', async () => {
+    const octokit = createOctokit([
+      associated({
+        number: 41,
+        title: 'feat: a thing',
+        head: { ref: 'feature/thing' },
+        labels: []
+      }),
+      associated()
+    ]);
+
+    await expect(
+      findMergedReleasePullRequest(
+        octokit as unknown as InstanceType<typeof GitHub>,
+        ctx('Rebased commit'),
+        'after-sha'
+      )
+    ).resolves.toBe(42);
+    expect(
+      octokit.rest.repos.listPullRequestsAssociatedWithCommit
+    ).toHaveBeenCalledWith({
+      owner: 'test-owner',
+      repo: 'test-repo',
+      commit_sha: 'after-sha'
+    });
+  });
+
+  it('should ignore release pull requests that were not merged', async () => {
+    const octokit = createOctokit([associated({ merged_at: null })]);
+
+    await expect(
+      findMergedReleasePullRequest(
+        octokit as unknown as InstanceType<typeof GitHub>,
+        ctx('feat: a thing'),
+        'after-sha'
+      )
+    ).resolves.toBeNull();
+  });
+
+  it('should fall back to the commit message', async () => {
+    await expect(
+      findMergedReleasePullRequest(
+        createOctokit([]) as unknown as InstanceType<typeof GitHub>,
+        ctx('chore(main): release 2.0.0 (#43)'),
+        'after-sha'
+      )
+    ).resolves.toBe(43);
+    await expect(
+      findMergedReleasePullRequest(
+        null,
+        ctx('chore(main): release 2.0.0 (#43)'),
+        'after-sha'
+      )
+    ).resolves.toBe(43);
+  });
+});
@@ -0,0 +1,194 @@
+import type { Context } from '@actions/github/lib/context';
+import type { GitHub } from '@actions/github/lib/utils';
+import type { ReleasePleaseConfig } from './config';
+
+export const RELEASE_PENDING_LABEL = 'autorelease: pending';
+
+const RELEASE_BRANCH_PREFIX = 'release-please--branches--';
+
+// GitHub's merge commit subject, and the ` (#123)` suffix of squash merges
+const MERGE_COMMIT_PATTERN = /^Merge pull request #(\d+) from \S+?\/(\S+)/;
+const SQUASH_COMMIT_PATTERN = /^(.*) \(#(\d+)\)$/;
+
+const DEFAULT_TITLE_PATTERNS = [
+  'chore${scope}: release${component} ${version}',
+  'chore${scope}: release ${branch}'
+];
+
+// Values release-please substitutes into pull request title patterns
+const PLACEHOLDERS: Record<string, string> = {
+  scope: '(?:\\([^)]*\\))?',
+  component: '(?: \\S+)?',
+  version: 'v?\\d+\\.\\d+\\.\\d+(?:[-+]\\S*)?',
+  branch: '\\S+'
+};
+
+export interface PullRequestInfo {
+  title: string;
+  headRef: string;
+  labels: string[];
+}
+
+/**
+ * Get the title, head branch and labels of the triggering pull request
+ * @param ctx - GitHub Actions context
+ * @returns Pull request details, or null if the event has no pull request
+ */
+export function getPullRequestInfo(ctx: Context): PullRequestInfo | null {
+  const { pull_request: pullRequest } = ctx.payload;
+
+  if (!pullRequest) {
+    return null;
+  }
+
+  return {
+    title: pullRequest.title ?? '',
+    headRef: pullRequest.head?.ref ?? '',
+    labels: (pullRequest.labels ?? []).map(({ name }: { name: string }) => name)
+  };
+}
+
+/**
+ * Convert a release-please pull request title pattern to a regular expression
+ * @param pattern - Title pattern with `${scope}`, `${component}`, `${version}` and `${branch}` placeholders
+ * @returns Regular expression matching whole titles
+ */
+export function titlePatternToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split(/(\$\{\w+\})/)
+    .map((part) => {
+      const placeholder = part.match(/^\$\{(\w+)\}$/);
+
+      return placeholder && placeholder[1] in PLACEHOLDERS
+        ? PLACEHOLDERS[placeholder[1]]
+        : part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Check whether a pull request was opened by release-please
+ * @param pullRequest - Pull request title, head branch and labels
+ * @param config - Release-please config (or null if there isn't one), for custom title patterns
+ * @returns true if the branch, title or labels match release-please's
+ */
+export function isReleasePullRequest(
+  pullRequest: PullRequestInfo,
+  config: ReleasePleaseConfig | null = null
+): boolean {
+  if (pullRequest.headRef.startsWith(RELEASE_BRANCH_PREFIX)) {
+    return true;
+  }
+
+  if (pullRequest.labels.includes(RELEASE_PENDING_LABEL)) {
+    return true;
+  }
+
+  const patterns = [
+    ...DEFAULT_TITLE_PATTERNS,
+    config?.['pull-request-title-pattern'],
+    config?.['group-pull-request-title-pattern']
+  ].filter((pattern): pattern is string => Boolean(pattern));
+
+  return patterns.some((pattern) =>
+    titlePatternToRegExp(pattern).test(pullRequest.title)
+  );
+}
+
+/**
+ * Check whether the triggering event is a push to the repository's default branch
+ * @param ctx - GitHub Actions context
+ * @returns true for push events whose ref is the default branch
+ */
+export function isDefaultBranchPush(ctx: Context): boolean {
+  const defaultBranch = ctx.payload.repository?.default_branch;
+
+  return (
+    ctx.eventName === 'push' &&
+    Boolean(defaultBranch) &&
+    ctx.payload.ref === `refs/heads/${defaultBranch}`
+  );
+}
+
+/**
+ * Get the release-please pull request a commit was merged from, using its message
+ * @param message - Commit message
+ * @param config - Release-please config (or null if there isn't one), for custom title patterns
+ * @returns Pull request number, or null if the message isn't from a merged release-please pull request
+ */
+export function getReleasePullRequestFromCommit(
+  message: string,
+  config: ReleasePleaseConfig | null = null
+): number | null {
+  const [subject] = message.split('\n');
+  const merge = subject.match(MERGE_COMMIT_PATTERN);
+
+  if (merge) {
+    return merge[2].startsWith(RELEASE_BRANCH_PREFIX) ? Number(merge[1]) : null;
+  }
+
+  const squash = subject.match(SQUASH_COMMIT_PATTERN);
+
+  return squash &&
+    isReleasePullRequest({ title: squash[1], headRef: '', labels: [] }, config)
+    ? Number(squash[2])
+    : null;
+}
+
+/**
+ * Find the merged release-please pull request a pushed commit came from
+ * @param octokit - GitHub API client, to look up the pull requests associated with the commit (or null to only use the commit message)
+ * @param ctx - GitHub Actions context of a push event
+ * @param sha - Pushed commit SHA
+ * @param configs - Release-please configs (null where there isn't one), for custom title patterns
+ * @returns Pull request number, or null if the commit didn't come from a merged release-please pull request
+ */
+export async function findMergedReleasePullRequest(
+  octokit: InstanceType<typeof GitHub> | null,
+  ctx: Context,
+  sha: string,
+  configs: (ReleasePleaseConfig | null)[] = [null]
+): Promise<number | null> {
+  if (octokit) {
+    const { data } =
+      await octokit.rest.repos.listPullRequestsAssociatedWithCommit({
+        owner: ctx.repo.owner,
+        repo: ctx.repo.repo,
+        commit_sha: sha
+      });
+    const merged = data.find(
+      (pullRequest) =>
+        pullRequest.merged_at &&
+        configs.some((config) =>
+          isReleasePullRequest(
+            {
+              title: pullRequest.title,
+              headRef: pullRequest.head.ref,
+              labels: pullRequest.labels.map(({ name }) => name)
+            },
+            config
+          )
+        )
+    );
+
+    if (merged) {
+      return merged.number;
+    }
+  }
+
+  // Fall back to the subject GitHub gives merge and squash commits
+  for (const config of configs) {
+    const number = getReleasePullRequestFromCommit(
+      ctx.payload.head_commit?.message ?? '',
+      config
+    );
+
+    if (number !== null) {
+      return number;
+    }
+  }
+
+  return null;
+}
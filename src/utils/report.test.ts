@@ -0,0 +1,224 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeManifestChanges } from './manifest';
+import {
+  renderAnomalies,
+  renderBreakingChanges,
+  renderBumpTable,
+  renderMismatches,
+  renderSummary
+} from './report';
+
+describe('renderBumpTable', () => {
+  it('should render every changed path and highlight detected bumps', () => {
+    const analysis = analyzeManifestChanges(
+      { 'packages/foo': '1.2.3', 'packages/bar': '1.0.0' },
+      { 'packages/foo': '2.0.0', 'packages/bar': '1.1.0' }
+    );
+
+    expect(renderBumpTable(analysis)).toBe(
+      [
+        '| Path | Version | Bump |',
+        '| --- | --- | --- |',
+        '| **`packages/foo`** | **1.2.3 → 2.0.0** | 🚨 **major** |',
+        '| `packages/bar` | 1.0.0 → 1.1.0 | minor |'
+      ].join('\n')
+    );
+  });
+
+  it('should include a component column when components are known', () => {
+    const analysis = analyzeManifestChanges(
+      { 'packages/foo': '1.2.3' },
+      { 'packages/foo': '2.0.0', 'packages/new': '0.1.0' }
+    );
+
+    expect(
+      renderBumpTable(analysis, {
+        'packages/foo': {
+          oldVersion: '1.2.3',
+          newVersion: '2.0.0',
+          bump: 'major',
+          component: 'foo',
+          packageName: null,
+          tag: 'foo-v2.0.0',
+          releaseType: null,
+          changelogPath: 'packages/foo/CHANGELOG.md'
+        }
+      })
+    ).toBe(
+      [
+        '| Path | Component | Version | Bump |',
+        '| --- | --- | --- | --- |',
+        '| **`packages/foo`** | foo | **1.2.3 → 2.0.0** | 🚨 **major** |',
+        '| `packages/new` |  | _none_ → 0.1.0 | added |'
+      ].join('\n')
+    );
+  });
+
+  it('should include a changelog column when a changelog URL builder is given', () => {
+    const analysis = analyzeManifestChanges({ '.': '1.2.3' }, { '.': '1.3.0' });
+
+    expect(
+      renderBumpTable(
+        analysis,
+        {
+          '.': {
+            oldVersion: '1.2.3',
+            newVersion: '1.3.0',
+            bump: 'minor',
+            component: null,
+            packageName: null,
+            tag: 'v1.3.0',
+            releaseType: null,
+            changelogPath: 'CHANGELOG.md'
+          }
+        },
+        { changelogUrl: (path) => `https://example.com/blob/abc/${path}` }
+      )
+    ).toBe(
+      [
+        '| Path | Version | Bump | Changelog |',
+        '| --- | --- | --- | --- |',
+        '| `.` | 1.2.3 → 1.3.0 | minor | [CHANGELOG.md](https://example.com/blob/abc/CHANGELOG.md) |'
+      ].join('\n')
+    );
+  });
+
+  it('should return an empty string when nothing changed', () => {
+    const analysis = analyzeManifestChanges({ '.': '1.0.0' }, { '.': '1.0.0' });
+
+    expect(renderBumpTable(analysis)).toBe('');
+  });
+});
+
+describe('renderBreakingChanges', () => {
+  it('should list notes for each path and note missing sections', () => {
+    expect(
+      renderBreakingChanges({
+        'packages/foo': {
+          version: '2.0.0',
+          changelogPath: 'packages/foo/CHANGELOG.md',
+          notes: ['remove the legacy API']
+        },
+        'packages/bar': {
+          version: '3.0.0',
+          changelogPath: 'packages/bar/CHANGELOG.md',
+          notes: null
+        },
+        'packages/baz': {
+          version: '1.0.0',
+          changelogPath: 'packages/baz/CHANGELOG.md',
+          notes: []
+        }
+      })
+    ).toBe(
+      [
+        '### ⚠ Breaking changes',
+        '',
+        '**`packages/foo`** 2.0.0',
+        '',
+        '- remove the legacy API',
+        '',
+        '**`packages/bar`** 3.0.0',
+        '',
+        '_No 3.0.0 section found in `packages/bar/CHANGELOG.md`_',
+        '',
+        '**`packages/baz`** 1.0.0',
+        '',
+        '_No breaking changes listed in `packages/baz/CHANGELOG.md`_'
+      ].join('\n')
+    );
+  });
+
+  it('should return an empty string when there are no detected bumps', () => {
+    expect(renderBreakingChanges({})).toBe('');
+  });
+});
+
+describe('renderMismatches', () => {
+  it('should render a table of mismatched bumps', () => {
+    expect(
+      renderMismatches({
+        'packages/foo': {
+          tag: 'foo-v1.2.3',
+          actual: 'major',
+          expected: 'patch',
+          commits: 2
+        }
+      })
+    ).toBe(
+      [
+        "### ⚠ Bumps that don't match commits",
+        '',
+        '| Path | Manifest bump | Expected bump | Commits |',
+        '| --- | --- | --- | --- |',
+        '| `packages/foo` | major | patch | 2 since `foo-v1.2.3` |'
+      ].join('\n')
+    );
+  });
+
+  it('should return an empty string when there are no mismatches', () => {
+    expect(renderMismatches({})).toBe('');
+  });
+});
+
+describe('renderAnomalies', () => {
+  it('should list each anomaly with its kind', () => {
+    expect(
+      renderAnomalies({
+        'packages/foo': {
+          kind: 'downgrade',
+          oldVersion: '2.0.0',
+          newVersion: '1.9.0'
+        },
+        'packages/bar': {
+          kind: 'removal',
+          oldVersion: '1.0.0',
+          newVersion: null
+        }
+      })
+    ).toBe(
+      [
+        '### ⚠ Manifest anomalies',
+        '',
+        '- **downgrade**: `packages/foo` was downgraded from 2.0.0 to 1.9.0',
+        '- **removal**: `packages/bar` was removed from the manifest (was 1.0.0)'
+      ].join('\n')
+    );
+  });
+
+  it('should return an empty string when there are no anomalies', () => {
+    expect(renderAnomalies({})).toBe('');
+  });
+});
+
+describe('renderSummary', () => {
+  it('should show a banner listing major bumps', () => {
+    const analysis = analyzeManifestChanges(
+      { 'packages/foo': '1.2.3', 'packages/bar': '1.0.0' },
+      { 'packages/foo': '2.0.0', 'packages/bar': '1.1.0' }
+    );
+
+    const summary = renderSummary(analysis);
+
+    expect(summary).toContain('## Release version bumps');
+    expect(summary).toContain(
+      '> **🚨 Major version bumps detected** in `packages/foo`'
+    );
+    expect(summary).toContain(renderBumpTable(analysis));
+  });
+
+  it('should report when there are no major bumps', () => {
+    const analysis = analyzeManifestChanges({ '.': '1.0.0' }, { '.': '1.1.0' });
+
+    const summary = renderSummary(analysis);
+
+    expect(summary).toContain('✅ No major version bumps detected');
+    expect(summary).not.toContain('[!WARNING]');
+  });
+
+  it('should note when nothing changed', () => {
+    const analysis = analyzeManifestChanges({ '.': '1.0.0' }, { '.': '1.0.0' });
+
+    expect(renderSummary(analysis)).toContain('_No version changes_');
+  });
+});
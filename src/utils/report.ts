@@ -0,0 +1,210 @@
+import { type Anomaly, describeAnomaly } from './anomalies';
+import type { BreakingChanges } from './changelog';
+import type { BumpCheck } from './commits';
+import type { PackageDetails } from './config';
+import type { ManifestAnalysis } from './manifest';
+
+/**
+ * Escape a value for use in a markdown table cell
+ * @param value - Cell value
+ * @returns Value with pipes escaped
+ */
+function escapeCell(value: string): string {
+  return value.replace(/\|/g, '\\|');
+}
+
+export interface BumpTableOptions {
+  changelogUrl?: (changelogPath: string) => string;
+}
+
+export interface SummaryOptions extends BumpTableOptions {
+  breakingChanges?: Record<string, BreakingChanges>;
+  mismatches?: Record<string, BumpCheck>;
+  anomalies?: Record<string, Anomaly>;
+}
+
+/**
+ * Render every changed path of an analysis as a markdown table, highlighting detected bumps
+ * @param analysis - Manifest analysis
+ * @param packages - Resolved package details, used for the component column
+ * @param options - Builds changelog links from changelog paths, adding a changelog column
+ * @returns Markdown table, or an empty string if there are no changes
+ */
+export function renderBumpTable(
+  analysis: ManifestAnalysis,
+  packages: Record<string, PackageDetails> = {},
+  options: BumpTableOptions = {}
+): string {
+  const entries = Object.entries(analysis.changes);
+
+  if (entries.length === 0) {
+    return '';
+  }
+
+  const hasComponents = entries.some(([path]) => packages[path]?.component);
+  const header = ['Path', 'Version', 'Bump'];
+
+  if (hasComponents) {
+    header.splice(1, 0, 'Component');
+  }
+
+  if (options.changelogUrl) {
+    header.push('Changelog');
+  }
+
+  const rows = entries.map(([path, change]) => {
+    const detected = path in analysis.majorBumps;
+    const version = `${change.oldVersion ?? '_none_'} → ${change.newVersion ?? '_none_'}`;
+    const row = [
+      detected ? `**\`${path}\`**` : `\`${path}\``,
+      detected ? `**${version}**` : version,
+      detected ? `🚨 **${change.bump}**` : change.bump
+    ];
+
+    if (hasComponents) {
+      row.splice(1, 0, packages[path]?.component ?? '');
+    }
+
+    if (options.changelogUrl) {
+      const changelogPath = packages[path]?.changelogPath;
+      row.push(
+        changelogPath
+          ? `[${changelogPath}](${options.changelogUrl(changelogPath)})`
+          : ''
+      );
+    }
+
+    return row;
+  });
+
+  return [header, header.map(() => '---'), ...rows]
+    .map((row) => `| ${row.map(escapeCell).join(' | ')} |`)
+    .join('\n');
+}
+
+/**
+ * Render the breaking change notes of each detected bump as markdown
+ * @param breakingChanges - Breaking changes read from changelogs
+ * @returns Markdown section, or an empty string if there are no detected bumps
+ */
+export function renderBreakingChanges(
+  breakingChanges: Record<string, BreakingChanges>
+): string {
+  const entries = Object.entries(breakingChanges);
+
+  if (entries.length === 0) {
+    return '';
+  }
+
+  const lines = ['### ⚠ Breaking changes'];
+
+  for (const [path, { version, changelogPath, notes }] of entries) {
+    lines.push('', `**\`${path}\`** ${version}`, '');
+
+    if (notes === null) {
+      lines.push(`_No ${version} section found in \`${changelogPath}\`_`);
+    } else if (notes.length === 0) {
+      lines.push(`_No breaking changes listed in \`${changelogPath}\`_`);
+    } else {
+      lines.push(...notes.map((note) => `- ${note}`));
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Render the paths whose manifest bump doesn't match their commits as a markdown table
+ * @param mismatches - Mismatched bump checks
+ * @returns Markdown section, or an empty string if there are no mismatches
+ */
+export function renderMismatches(
+  mismatches: Record<string, BumpCheck>
+): string {
+  const entries = Object.entries(mismatches);
+
+  if (entries.length === 0) {
+    return '';
+  }
+
+  const rows = entries.map(([path, { tag, actual, expected, commits }]) => [
+    `\`${path}\``,
+    actual,
+    expected ?? '',
+    `${commits} since \`${tag}\``
+  ]);
+
+  return [
+    "### ⚠ Bumps that don't match commits",
+    '',
+    ...[
+      ['Path', 'Manifest bump', 'Expected bump', 'Commits'],
+      ['---', '---', '---', '---'],
+      ...rows
+    ].map((row) => `| ${row.map(escapeCell).join(' | ')} |`)
+  ].join('\n');
+}
+
+/**
+ * Render manifest anomalies as a markdown list
+ * @param anomalies - Record mapping anomalous paths to their anomalies
+ * @returns Markdown section, or an empty string if there are no anomalies
+ */
+export function renderAnomalies(anomalies: Record<string, Anomaly>): string {
+  const entries = Object.entries(anomalies);
+
+  if (entries.length === 0) {
+    return '';
+  }
+
+  return [
+    '### ⚠ Manifest anomalies',
+    '',
+    ...entries.map(
+      ([path, anomaly]) =>
+        `- **${anomaly.kind}**: ${describeAnomaly(`\`${path}\``, anomaly)}`
+    )
+  ].join('\n');
+}
+
+/**
+ * Render a markdown report of an analysis for the job summary
+ * @param analysis - Manifest analysis
+ * @param packages - Resolved package details
+ * @param options - Changelog link builder, breaking changes, bump mismatches and anomalies to include
+ * @returns Markdown report with a banner when major bumps are detected
+ */
+export function renderSummary(
+  analysis: ManifestAnalysis,
+  packages: Record<string, PackageDetails> = {},
+  options: SummaryOptions = {}
+): string {
+  const lines = ['## Release version bumps', ''];
+  const majorPaths = Object.keys(analysis.majorBumps);
+
+  if (analysis.hasMajorBump) {
+    lines.push(
+      '> [!WARNING]',
+      `> **🚨 Major version bumps detected** in ${majorPaths.map((path) => `\`${path}\``).join(', ')}`,
+      ''
+    );
+  } else {
+    lines.push('✅ No major version bumps detected', '');
+  }
+
+  lines.push(
+    renderBumpTable(analysis, packages, options) || '_No version changes_'
+  );
+
+  const sections = [
+    renderBreakingChanges(options.breakingChanges ?? {}),
+    renderMismatches(options.mismatches ?? {}),
+    renderAnomalies(options.anomalies ?? {})
+  ];
+
+  for (const section of sections.filter(Boolean)) {
+    lines.push('', section);
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,167 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { FileSource } from './files';
+import { detectChangesSinceRelease, findLatestRelease } from './tags';
+import { createCalverStrategy } from './version';
+
+describe('findLatestRelease', () => {
+  const tags = [
+    'v1.0.0',
+    'v1.10.0',
+    'v1.9.0',
+    'v2.0.0-rc.1',
+    'foo-v3.1.0',
+    'foo-v3.0.0',
+    'foo-bar-v9.0.0',
+    'nightly'
+  ];
+
+  it('should find the highest version for a root package', () => {
+    expect(findLatestRelease(tags, {}, null)).toEqual({
+      tag: 'v2.0.0-rc.1',
+      version: '2.0.0-rc.1'
+    });
+  });
+
+  it('should only consider tags with the component prefix', () => {
+    expect(findLatestRelease(tags, {}, 'foo')).toEqual({
+      tag: 'foo-v3.1.0',
+      version: '3.1.0'
+    });
+  });
+
+  it('should follow the configured tag format', () => {
+    expect(
+      findLatestRelease(
+        ['bar/1.2.0', 'bar/1.3.0', 'bar-v5.0.0'],
+        { 'tag-separator': '/', 'include-v-in-tag': false },
+        'bar'
+      )
+    ).toEqual({ tag: 'bar/1.3.0', version: '1.3.0' });
+    expect(
+      findLatestRelease(
+        ['1.2.0', '1.10.0', 'foo-1.11.0'],
+        { 'include-component-in-tag': false, 'include-v-in-tag': false },
+        'foo'
+      )
+    ).toEqual({ tag: '1.10.0', version: '1.10.0' });
+  });
+
+  it('should order versions with the given strategy', () => {
+    expect(
+      findLatestRelease(
+        ['v2024.12.1', 'v2025.1.0', 'v1.0.0'],
+        {},
+        null,
+        createCalverStrategy('YYYY.MM.MICRO')
+      )
+    ).toEqual({ tag: 'v2025.1.0', version: '2025.1.0' });
+  });
+
+  it('should return null for packages that were never released', () => {
+    expect(findLatestRelease(tags, {}, 'baz')).toBeNull();
+    expect(findLatestRelease([], {}, null)).toBeNull();
+  });
+});
+
+describe('detectChangesSinceRelease', () => {
+  const createSource = (manifest: string): FileSource => ({
+    readFile: vi.fn(async () => manifest),
+    listCommitMessages: vi.fn(),
+    listFiles: vi.fn(),
+    listTags: vi.fn()
+  });
+
+  it('should compare the head manifest against the latest release tags', async () => {
+    const source = createSource(
+      JSON.stringify({
+        '.': '2.0.0',
+        'packages/foo': '3.2.0',
+        'packages/new': '0.1.0'
+      })
+    );
+
+    const { analysis, problems, releaseTags, skippedPaths } =
+      await detectChangesSinceRelease(
+        source,
+        '.release-please-manifest.json',
+        'head-sha',
+        ['v1.4.0', 'v1.3.0', 'foo-v3.1.0'],
+        {
+          packages: {
+            'packages/foo': { component: 'foo' },
+            'packages/new': { component: 'new' }
+          }
+        },
+        { detectLevel: 'minor' }
+      );
+
+    expect(source.readFile).toHaveBeenCalledWith(
+      '.release-please-manifest.json',
+      'head-sha'
+    );
+    expect(source.listTags).not.toHaveBeenCalled();
+    expect(problems).toEqual([]);
+    expect(skippedPaths).toEqual([]);
+    expect(releaseTags).toEqual({
+      '.': 'v1.4.0',
+      'packages/foo': 'foo-v3.1.0'
+    });
+    expect(analysis.changes).toMatchObject({
+      '.': { oldVersion: '1.4.0', newVersion: '2.0.0', bump: 'major' },
+      'packages/foo': {
+        oldVersion: '3.1.0',
+        newVersion: '3.2.0',
+        bump: 'minor'
+      },
+      'packages/new': { oldVersion: null, newVersion: '0.1.0', bump: 'added' }
+    });
+    expect(analysis.majorBumps).toEqual({
+      '.': ['1.4.0', '2.0.0'],
+      'packages/foo': ['3.1.0', '3.2.0']
+    });
+  });
+
+  it('should skip paths whose tags cannot be told apart from the root package', async () => {
+    const { analysis, releaseTags, skippedPaths } =
+      await detectChangesSinceRelease(
+        createSource(
+          JSON.stringify({
+            '.': '2.0.0',
+            'packages/bar': '3.0.0',
+            'packages/baz': '1.1.0'
+          })
+        ),
+        '.release-please-manifest.json',
+        'head-sha',
+        ['v1.4.0', 'v1.0.0'],
+        {
+          packages: {
+            'packages/baz': { 'include-component-in-tag': false }
+          }
+        }
+      );
+
+    expect(skippedPaths).toEqual(['packages/bar']);
+    expect(releaseTags).toEqual({ '.': 'v1.4.0', 'packages/baz': 'v1.4.0' });
+    expect(Object.keys(analysis.changes)).toEqual(['.', 'packages/baz']);
+  });
+
+  it('should report problems in the head manifest', async () => {
+    const { analysis, problems, releaseTags } = await detectChangesSinceRelease(
+      createSource('{"." : 2}'),
+      '.release-please-manifest.json',
+      'head-sha',
+      ['v1.0.0'],
+      null
+    );
+
+    expect(problems).toEqual([
+      expect.objectContaining({
+        path: '.',
+        message: 'Version for . must be a string, got number'
+      })
+    ]);
+    expect(releaseTags).toEqual({});
+    expect(analysis.changes).toEqual({});
+  });
+});
@@ -0,0 +1,148 @@
+import {
+  type ReleasePleaseConfig,
+  type ReleasePleasePackageConfig,
+  getComponent,
+  getPackageConfig,
+  getReleaseTag
+} from './config';
+import type { ContentClient } from './files';
+import {
+  type AnalysisOptions,
+  type ManifestDetection,
+  type ReleasePleaseManifest,
+  analyzeManifestChanges,
+  readManifestAtRef
+} from './manifest';
+import {
+  type ParsedVersion,
+  SEMVER_STRATEGY,
+  type VersioningStrategy,
+  compareVersions,
+  getVersioningStrategy
+} from './version';
+
+export type ComparisonMode = 'base' | 'tags';
+
+export const COMPARISON_MODES: ComparisonMode[] = ['base', 'tags'];
+
+export interface ReleasedVersion {
+  tag: string;
+  version: string;
+}
+
+export interface ReleaseDetection extends ManifestDetection {
+  releaseTags: Record<string, string>;
+  skippedPaths: string[];
+}
+
+/**
+ * Find the highest released version of a package among the repository's tags
+ * @param tags - Tag names
+ * @param packageConfig - Effective package config, used for the tag format
+ * @param component - Package component name
+ * @param strategy - Versioning strategy used to parse and order versions (defaults to semver)
+ * @returns The tag and version of the latest release, or null if the package has never been released
+ */
+export function findLatestRelease(
+  tags: string[],
+  packageConfig: ReleasePleasePackageConfig,
+  component: string | null,
+  strategy: VersioningStrategy = SEMVER_STRATEGY
+): ReleasedVersion | null {
+  // Every tag for this package starts with the part of the tag before the version
+  const prefix = getReleaseTag(packageConfig, component, '');
+  let latest: (ReleasedVersion & { parsed: ParsedVersion }) | null = null;
+
+  for (const tag of tags) {
+    if (!tag.startsWith(prefix) || tag.length === prefix.length) {
+      continue;
+    }
+
+    const version = tag.slice(prefix.length);
+    let parsed: ParsedVersion;
+
+    try {
+      parsed = strategy.parse(version);
+    } catch {
+      // Another component's tag that shares the prefix
+      continue;
+    }
+
+    if (!latest || compareVersions(parsed, latest.parsed) > 0) {
+      latest = { tag, version, parsed };
+    }
+  }
+
+  return latest && { tag: latest.tag, version: latest.version };
+}
+
+/**
+ * Detect version bumps between each package's latest release tag and the head manifest
+ * @param client - GitHub API client or file source
+ * @param manifestPath - Path to the manifest file
+ * @param headRef - Git ref to read the manifest from
+ * @param tags - Tag names in the repository
+ * @param config - Release-please config (or null if there isn't one), used for tag formats
+ * @param options - Analysis options passed to `analyzeManifestChanges`
+ * @returns Analysis against the released versions, problems in the head manifest, the release tag compared against for each path, and the non-root paths left out because their tags can't be told apart from the root package's
+ */
+export async function detectChangesSinceRelease(
+  client: ContentClient,
+  manifestPath: string,
+  headRef: string,
+  tags: string[],
+  config: ReleasePleaseConfig | null,
+  options: AnalysisOptions = {}
+): Promise<ReleaseDetection> {
+  const { manifest, problems } = await readManifestAtRef(
+    client,
+    manifestPath,
+    headRef,
+    options.versioning
+  );
+  const head: ReleasePleaseManifest = {};
+  const released: ReleasePleaseManifest = {};
+  const releaseTags: Record<string, string> = {};
+  const skippedPaths: string[] = [];
+
+  for (const [path, version] of Object.entries(manifest ?? {})) {
+    const packageConfig = getPackageConfig(config, path);
+    const component = getComponent(packageConfig);
+
+    // Without a component the tag prefix falls back to the root package's, so
+    // the path would be compared against another package's releases
+    if (
+      path !== '.' &&
+      component === null &&
+      packageConfig['include-component-in-tag'] !== false
+    ) {
+      skippedPaths.push(path);
+      continue;
+    }
+
+    head[path] = version;
+
+    const release = findLatestRelease(
+      tags,
+      packageConfig,
+      component,
+      getVersioningStrategy(options.versioning ?? {}, path)
+    );
+
+    if (release) {
+      released[path] = release.version;
+      releaseTags[path] = release.tag;
+    }
+  }
+
+  return {
+    analysis: analyzeManifestChanges(
+      manifest && released,
+      manifest && head,
+      options
+    ),
+    problems,
+    releaseTags,
+    skippedPaths
+  };
+}
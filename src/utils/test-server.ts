@@ -0,0 +1,92 @@
+import {
+  type IncomingMessage,
+  type Server,
+  type ServerResponse,
+  createServer
+} from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, beforeEach } from 'vitest';
+
+export type Handler = (req: IncomingMessage, res: ServerResponse) => void;
+
+export interface RecordedRequest {
+  url: string;
+  headers: IncomingMessage['headers'];
+  body: string;
+}
+
+export interface TestServer {
+  url: string;
+  handlers: Handler[];
+  requests: RecordedRequest[];
+}
+
+/**
+ * Create a handler that responds with a status, and a JSON body if one is given
+ * @param status - Response status
+ * @param body - Response body, serialized as JSON
+ * @param headers - Extra response headers
+ * @returns Request handler
+ */
+export function respond(
+  status: number,
+  body?: unknown,
+  headers: Record<string, string> = {}
+): Handler {
+  return (_req, res) => {
+    if (body === undefined) {
+      res.writeHead(status, headers);
+      res.end();
+    } else {
+      res.writeHead(status, { 'content-type': 'application/json', ...headers });
+      res.end(JSON.stringify(body));
+    }
+  };
+}
+
+/**
+ * Start a local HTTP server for the current test suite, which records each
+ * request and answers it with the next queued handler (or a 500 when the
+ * queue is empty). Handlers and requests are cleared before each test
+ * @param path - Path appended to the server's URL
+ * @returns Server URL, handler queue and recorded requests
+ */
+export function useTestServer(path = '/'): TestServer {
+  const testServer: TestServer = { url: '', handlers: [], requests: [] };
+  let server: Server;
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => {
+        body += chunk;
+      });
+      req.on('end', () => {
+        testServer.requests.push({
+          url: req.url ?? '',
+          headers: req.headers,
+          body
+        });
+        const handler =
+          testServer.handlers.shift() ??
+          respond(500, { message: 'No handler' });
+        handler(req, res);
+      });
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve)
+    );
+    testServer.url = `http://127.0.0.1:${(server.address() as AddressInfo).port}${path}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    testServer.handlers = [];
+    testServer.requests = [];
+  });
+
+  return testServer;
+}
@@ -0,0 +1,170 @@
+import { describe, expect, it, vi } from 'vitest';
+import { findEntryLine, formatProblems, validateManifest } from './validation';
+import { createCalverStrategy } from './version';
+
+const MANIFEST_FILE = '.release-please-manifest.json';
+
+describe('findEntryLine', () => {
+  it('should find the line declaring a key', () => {
+    const content = '{\n  ".": "1.0.0",\n  "packages/foo": "2.0.0"\n}';
+
+    expect(findEntryLine(content, 'packages/foo')).toBe(3);
+    expect(findEntryLine(content, '.')).toBe(2);
+  });
+
+  it('should not match keys that only appear as values', () => {
+    expect(findEntryLine('{"a": "b"}', 'b')).toBeNull();
+  });
+});
+
+describe('validateManifest', () => {
+  it('should return every entry of a valid manifest', () => {
+    expect(
+      validateManifest(
+        JSON.stringify({ '.': '1.0.0', 'packages/foo': '2.0.0-beta.1' }),
+        MANIFEST_FILE,
+        'head'
+      )
+    ).toEqual({
+      manifest: { '.': '1.0.0', 'packages/foo': '2.0.0-beta.1' },
+      problems: []
+    });
+  });
+
+  it('should skip and report invalid versions with their line', () => {
+    const content = [
+      '{',
+      '  ".": "1.0.0",',
+      '  "packages/foo": "not-a-version",',
+      '  "packages/bar": 2',
+      '}'
+    ].join('\n');
+
+    expect(validateManifest(content, MANIFEST_FILE, 'head')).toEqual({
+      manifest: { '.': '1.0.0' },
+      problems: [
+        {
+          manifestFile: MANIFEST_FILE,
+          ref: 'head',
+          path: 'packages/foo',
+          line: 3,
+          message: 'Invalid version format: not-a-version for packages/foo'
+        },
+        {
+          manifestFile: MANIFEST_FILE,
+          ref: 'head',
+          path: 'packages/bar',
+          line: 4,
+          message: 'Version for packages/bar must be a string, got number'
+        }
+      ]
+    });
+  });
+
+  it('should validate versions with the strategy for their path', () => {
+    const { manifest, problems } = validateManifest(
+      JSON.stringify({ 'services/api': '2024.06.1', 'packages/foo': '1.0' }),
+      MANIFEST_FILE,
+      'head',
+      { 'services/*': createCalverStrategy('YYYY.0M.MICRO') }
+    );
+
+    expect(manifest).toEqual({ 'services/api': '2024.06.1' });
+    expect(problems.map(({ path }) => path)).toEqual(['packages/foo']);
+  });
+
+  it('should report the line of a JSON syntax error', () => {
+    const { manifest, problems } = validateManifest(
+      '{\n  ".": "1.0.0",\n}',
+      MANIFEST_FILE,
+      'head'
+    );
+
+    expect(manifest).toBeNull();
+    expect(problems).toHaveLength(1);
+    expect(problems[0]).toMatchObject({ path: null, line: 3 });
+    expect(problems[0].message).toMatch(/^Manifest is not valid JSON: /);
+  });
+
+  it('should read the line from errors that report a line and column', () => {
+    const parse = vi.spyOn(JSON, 'parse').mockImplementationOnce(() => {
+      throw new SyntaxError(
+        "Expected ',' or '}' after property value in JSON at position 20 (line 3 column 3)"
+      );
+    });
+
+    const { problems } = validateManifest(
+      '{\n  ".": "1.0.0"\n  "a": "1.0.0"\n}',
+      MANIFEST_FILE,
+      'head'
+    );
+
+    expect(problems[0]).toMatchObject({ path: null, line: 3 });
+    parse.mockRestore();
+  });
+
+  it('should leave the line unset when the error has no location', () => {
+    const { problems } = validateManifest(
+      '{\n  ".": "1.0.0",\n  "packages/foo": x\n}',
+      MANIFEST_FILE,
+      'head'
+    );
+
+    expect(problems).toEqual([
+      expect.objectContaining({
+        path: null,
+        line: null,
+        message: expect.stringMatching(
+          /^Manifest is not valid JSON: Unexpected token/
+        )
+      })
+    ]);
+  });
+
+  it.each([
+    ['[]', 'array'],
+    ['null', 'null'],
+    ['"1.0.0"', 'string']
+  ])('should reject %s as a manifest', (content, type) => {
+    expect(validateManifest(content, MANIFEST_FILE, 'head')).toEqual({
+      manifest: null,
+      problems: [
+        {
+          manifestFile: MANIFEST_FILE,
+          ref: 'head',
+          path: null,
+          line: 1,
+          message: `Manifest must be a JSON object mapping paths to versions, got ${type}`
+        }
+      ]
+    });
+  });
+});
+
+describe('formatProblems', () => {
+  it('should prefix each problem with its location', () => {
+    expect(
+      formatProblems([
+        {
+          manifestFile: MANIFEST_FILE,
+          ref: 'head',
+          path: 'packages/foo',
+          line: 3,
+          message: 'Invalid version format: x for packages/foo'
+        },
+        {
+          manifestFile: MANIFEST_FILE,
+          ref: 'base',
+          path: null,
+          line: null,
+          message: 'Manifest is not valid JSON'
+        }
+      ])
+    ).toBe(
+      [
+        '.release-please-manifest.json:3 (head): Invalid version format: x for packages/foo',
+        '.release-please-manifest.json (base): Manifest is not valid JSON'
+      ].join('\n')
+    );
+  });
+});
@@ -0,0 +1,152 @@
+import type { ReleasePleaseManifest } from './manifest';
+import { type VersioningConfig, getVersioningStrategy } from './version';
+
+export type ValidationMode = 'strict' | 'lenient';
+
+export const VALIDATION_MODES: ValidationMode[] = ['strict', 'lenient'];
+
+export interface ManifestProblem {
+  manifestFile: string;
+  ref: string;
+  path: string | null;
+  line: number | null;
+  message: string;
+}
+
+export interface ManifestValidation {
+  manifest: ReleasePleaseManifest | null;
+  problems: ManifestProblem[];
+}
+
+/**
+ * Get the 1-based line number of an offset in a file
+ * @param content - File content
+ * @param offset - Character offset
+ * @returns Line number
+ */
+function getLineAt(content: string, offset: number): number {
+  return content.slice(0, offset).split('\n').length;
+}
+
+/**
+ * Find the line declaring a manifest entry
+ * @param content - Manifest content
+ * @param path - Package path
+ * @returns 1-based line number, or null if the key can't be found
+ */
+export function findEntryLine(content: string, path: string): number | null {
+  const key = JSON.stringify(path).replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const match = new RegExp(`${key}\\s*:`).exec(content);
+
+  return match ? getLineAt(content, match.index) : null;
+}
+
+/**
+ * Parse a manifest and check every entry holds a version its strategy accepts
+ * @param content - Manifest content
+ * @param manifestFile - Path to the manifest file, recorded on problems
+ * @param ref - Git ref the manifest was read from, recorded on problems
+ * @param versioning - Per-path versioning strategies (defaults to semver)
+ * @returns The valid entries, or a null manifest if the file isn't a JSON object, and a problem for each invalid entry
+ */
+export function validateManifest(
+  content: string,
+  manifestFile: string,
+  ref: string,
+  versioning: VersioningConfig = {}
+): ManifestValidation {
+  const problem = (
+    path: string | null,
+    line: number | null,
+    message: string
+  ): ManifestProblem => ({ manifestFile, ref, path, line, message });
+
+  let parsed: unknown;
+
+  try {
+    parsed = JSON.parse(content);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    // Newer Node versions report "(line N column M)", older ones "at position N",
+    // and some errors, such as unexpected tokens on Node 20, report neither
+    const line = message.match(/\(line (\d+) column \d+\)/);
+    const position = message.match(/at position (\d+)/);
+
+    return {
+      manifest: null,
+      problems: [
+        problem(
+          null,
+          line
+            ? Number(line[1])
+            : position
+              ? getLineAt(content, Number(position[1]))
+              : null,
+          `Manifest is not valid JSON: ${message}`
+        )
+      ]
+    };
+  }
+
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    return {
+      manifest: null,
+      problems: [
+        problem(
+          null,
+          1,
+          `Manifest must be a JSON object mapping paths to versions, got ${Array.isArray(parsed) ? 'array' : parsed === null ? 'null' : typeof parsed}`
+        )
+      ]
+    };
+  }
+
+  const manifest: ReleasePleaseManifest = {};
+  const problems: ManifestProblem[] = [];
+
+  for (const [path, version] of Object.entries(parsed)) {
+    const line = findEntryLine(content, path);
+
+    if (typeof version !== 'string') {
+      problems.push(
+        problem(
+          path,
+          line,
+          `Version for ${path} must be a string, got ${version === null ? 'null' : typeof version}`
+        )
+      );
+      continue;
+    }
+
+    try {
+      getVersioningStrategy(versioning, path).parse(version);
+    } catch (error) {
+      problems.push(
+        problem(
+          path,
+          line,
+          `${error instanceof Error ? error.message : String(error)} for ${path}`
+        )
+      );
+      continue;
+    }
+
+    manifest[path] = version;
+  }
+
+  return { manifest, problems };
+}
+
+/**
+ * Format problems as a single message
+ * @param problems - Manifest problems
+ * @returns One line per problem, prefixed with the file, ref and line
+ */
+export function formatProblems(problems: ManifestProblem[]): string {
+  return problems
+    .map(
+      ({ manifestFile, ref, line, message }) =>
+        `${manifestFile}${line === null ? '' : `:${line}`} (${ref}): ${message}`
+    )
+    .join('\n');
+}
@@ -1,18 +1,102 @@
 import { describe, expect, it } from 'vitest';
-import { isMajorBump, parseVersion } from './version';
+import {
+  FOUR_PART_STRATEGY,
+  JAVA_SNAPSHOT_STRATEGY,
+  SEMVER_STRATEGY,
+  compareVersions,
+  createCalverStrategy,
+  getBumpType,
+  getPrereleaseTransition,
+  getVersioningStrategy,
+  isMajorBump,
+  meetsDetectLevel,
+  parseVersion,
+  parseVersioningConfig
+} from './version';
 
 describe('parseVersion', () => {
   it.each([
-    ['1.2.3', { version: '1.2.3', major: 1, minor: 2, patch: 3 }],
-    ['0.0.1', { version: '0.0.1', major: 0, minor: 0, patch: 1 }],
-    ['10.20.30', { version: '10.20.30', major: 10, minor: 20, patch: 30 }],
-    ['v1.2.3', { version: '1.2.3', major: 1, minor: 2, patch: 3 }],
-    ['v0.0.1', { version: '0.0.1', major: 0, minor: 0, patch: 1 }],
-    ['v10.20.30', { version: '10.20.30', major: 10, minor: 20, patch: 30 }]
+    [
+      '1.2.3',
+      {
+        version: '1.2.3',
+        major: 1,
+        minor: 2,
+        patch: 3,
+        prerelease: [],
+        build: []
+      }
+    ],
+    [
+      '0.0.1',
+      {
+        version: '0.0.1',
+        major: 0,
+        minor: 0,
+        patch: 1,
+        prerelease: [],
+        build: []
+      }
+    ],
+    [
+      '10.20.30',
+      {
+        version: '10.20.30',
+        major: 10,
+        minor: 20,
+        patch: 30,
+        prerelease: [],
+        build: []
+      }
+    ],
+    [
+      'v1.2.3',
+      {
+        version: '1.2.3',
+        major: 1,
+        minor: 2,
+        patch: 3,
+        prerelease: [],
+        build: []
+      }
+    ],
+    [
+      'v0.0.1',
+      {
+        version: '0.0.1',
+        major: 0,
+        minor: 0,
+        patch: 1,
+        prerelease: [],
+        build: []
+      }
+    ],
+    [
+      'v10.20.30',
+      {
+        version: '10.20.30',
+        major: 10,
+        minor: 20,
+        patch: 30,
+        prerelease: [],
+        build: []
+      }
+    ]
   ])('should parse valid semantic version %s', (version, expected) => {
     expect(parseVersion(version)).toEqual(expected);
   });
 
+  it('should parse prerelease and build identifiers', () => {
+    expect(parseVersion('2.0.0-rc.1+build.5')).toEqual({
+      version: '2.0.0-rc.1',
+      major: 2,
+      minor: 0,
+      patch: 0,
+      prerelease: ['rc', 1],
+      build: ['build', '5']
+    });
+  });
+
   it.each([
     ['1.2', 'Invalid version format: 1.2'],
     ['1.2.3.4', 'Invalid version format: 1.2.3.4'],
@@ -56,4 +140,280 @@ describe('isMajorBump', () => {
       expect(isMajorBump(oldVersion, newVersion)).toBe(false);
     }
   );
+
+  it.each([
+    ['0.4.2', '0.5.0'],
+    ['0.0.3', '0.0.4']
+  ])(
+    'should detect breaking 0.x bump from %s to %s with caret-compatible semantics',
+    (oldVersion, newVersion) => {
+      expect(
+        isMajorBump(oldVersion, newVersion, {
+          breakingSemantics: 'caret-compatible'
+        })
+      ).toBe(true);
+      expect(isMajorBump(oldVersion, newVersion)).toBe(false);
+    }
+  );
+});
+
+describe('getBumpType', () => {
+  it.each([
+    ['1.2.3', '2.0.0', 'major'],
+    ['0.5.0', '1.0.0', 'major'],
+    ['1.2.3', '1.3.0', 'minor'],
+    ['0.1.0', '0.2.0', 'minor'],
+    ['1.2.3', '1.2.4', 'patch'],
+    ['1.0.0-alpha.0', '1.0.0-alpha.1', 'prerelease'],
+    ['2.0.0', '1.9.9', 'downgraded'],
+    ['1.2.3', '1.2.2', 'downgraded']
+  ])('should classify %s to %s as %s', (oldVersion, newVersion, expected) => {
+    expect(getBumpType(oldVersion, newVersion)).toBe(expected);
+  });
+
+  it('should return null for equal versions', () => {
+    expect(getBumpType('1.2.3', 'v1.2.3')).toBeNull();
+  });
+
+  it.each([
+    ['0.4.2', '0.5.0', 'major'],
+    ['0.4.2', '0.4.3', 'patch'],
+    ['0.0.3', '0.0.4', 'major'],
+    ['1.2.3', '1.3.0', 'minor'],
+    ['1.2.3', '1.2.4', 'patch']
+  ])(
+    'should classify %s to %s as %s with caret-compatible semantics',
+    (oldVersion, newVersion, expected) => {
+      expect(
+        getBumpType(oldVersion, newVersion, {
+          breakingSemantics: 'caret-compatible'
+        })
+      ).toBe(expected);
+    }
+  );
+});
+
+describe('getPrereleaseTransition', () => {
+  it.each([
+    ['1.9.0', '2.0.0-alpha.0', 'enter'],
+    ['1.0.0-rc.1', '2.0.0-alpha.0', 'enter'],
+    ['2.0.0-alpha.0', '2.0.0-alpha.1', 'advance'],
+    ['2.0.0-alpha.1', '2.0.0-rc.0', 'advance'],
+    ['2.0.0-rc.1', '2.0.0', 'graduate'],
+    ['1.2.3', '1.3.0', null],
+    ['2.0.0-rc.1', '2.1.0', null],
+    ['2.0.0', '2.0.0-rc.1', null]
+  ])('should classify %s to %s as %s', (oldVersion, newVersion, expected) => {
+    expect(getPrereleaseTransition(oldVersion, newVersion)).toBe(expected);
+  });
+});
+
+describe('getBumpType with prereleases', () => {
+  it.each([
+    ['1.9.0', '2.0.0-alpha.0', 'report', 'major'],
+    ['2.0.0-rc.1', '2.0.0', 'report', 'major'],
+    ['2.0.0-alpha.0', '2.0.0-alpha.1', 'report', 'prerelease'],
+    ['1.2.3', '1.3.0-beta.0', 'report', 'minor'],
+    ['1.3.0-beta.0', '1.3.0', 'report', 'minor'],
+    ['1.2.4-rc.0', '1.2.4', 'report', 'patch'],
+    ['1.9.0', '2.0.0-alpha.0', 'ignore', 'prerelease'],
+    ['2.0.0-rc.1', '2.0.0', 'ignore', 'prerelease'],
+    ['1.9.0', '2.0.0-alpha.0', 'flag', 'prerelease'],
+    ['2.0.0-rc.1', '2.0.0', 'flag', 'prerelease'],
+    ['1.9.0', '2.0.0', 'ignore', 'major'],
+    ['2.0.0', '2.0.0-rc.1', 'report', 'downgraded']
+  ] as const)(
+    'should classify %s to %s with %s handling as %s',
+    (oldVersion, newVersion, prerelease, expected) => {
+      expect(getBumpType(oldVersion, newVersion, { prerelease })).toBe(
+        expected
+      );
+    }
+  );
+
+  it('should apply caret-compatible semantics to 0.x prerelease graduation', () => {
+    expect(
+      getBumpType('0.5.0-rc.1', '0.5.0', {
+        breakingSemantics: 'caret-compatible'
+      })
+    ).toBe('major');
+  });
+});
+
+describe('meetsDetectLevel', () => {
+  it.each([
+    ['major', 'major', true],
+    ['minor', 'major', false],
+    ['major', 'minor', true],
+    ['minor', 'minor', true],
+    ['patch', 'minor', false],
+    ['patch', 'patch', true],
+    ['prerelease', 'patch', false],
+    ['downgraded', 'patch', false],
+    [null, 'patch', false]
+  ] as const)(
+    'should check %s against detect level %s',
+    (bump, level, expected) => {
+      expect(meetsDetectLevel(bump, level)).toBe(expected);
+    }
+  );
+});
+
+describe('compareVersions', () => {
+  it.each([
+    ['1.0.0', '2.0.0', -1],
+    ['1.0.0-alpha', '1.0.0', -1],
+    ['1.0.0-alpha.1', '1.0.0-alpha.beta', -1],
+    ['1.0.0-alpha.beta', '1.0.0-beta', -1],
+    ['1.0.0-beta.2', '1.0.0-beta.11', -1],
+    ['1.0.0-rc.1', '1.0.0-rc.1.1', -1],
+    ['1.0.0+build.1', '1.0.0+build.2', 0]
+  ])('should order %s and %s like semver', (a, b, expected) => {
+    expect(
+      Math.sign(
+        compareVersions(SEMVER_STRATEGY.parse(a), SEMVER_STRATEGY.parse(b))
+      )
+    ).toBe(expected);
+  });
+});
+
+describe('calver strategy', () => {
+  const strategy = createCalverStrategy('YYYY.MM.MICRO');
+
+  it.each([
+    ['2024.12.3', '2025.1.0', 'minor'],
+    ['2024.1.0', '2024.2.0', 'minor'],
+    ['2024.1.0', '2024.1.1', 'patch'],
+    ['2024.1.1', '2024.1.0', 'downgraded']
+  ])('should classify %s to %s as %s', (oldVersion, newVersion, expected) => {
+    expect(getBumpType(oldVersion, newVersion, { strategy })).toBe(expected);
+  });
+
+  it('should classify MAJOR segment increases as major', () => {
+    const majorStrategy = createCalverStrategy('YY.MAJOR.MICRO');
+
+    expect(getBumpType('24.1.5', '24.2.0', { strategy: majorStrategy })).toBe(
+      'major'
+    );
+    expect(getBumpType('24.1.5', '25.1.0', { strategy: majorStrategy })).toBe(
+      'minor'
+    );
+  });
+
+  it('should accept prerelease suffixes', () => {
+    expect(
+      getPrereleaseTransition('2024.1.0', '2024.2.0-beta.1', strategy)
+    ).toBe('enter');
+  });
+
+  it('should throw on versions that do not match the pattern', () => {
+    expect(() => strategy.parse('2024.1')).toThrow(
+      'Invalid calver version format: 2024.1, expected YYYY.MM.MICRO'
+    );
+  });
+
+  it('should throw on unknown pattern segments', () => {
+    expect(() => createCalverStrategy('YYYY.QQ')).toThrow(
+      'Invalid calver pattern "YYYY.QQ", unknown segment QQ'
+    );
+  });
+});
+
+describe('four-part strategy', () => {
+  const strategy = FOUR_PART_STRATEGY;
+
+  it.each([
+    ['1.2.3.4', '2.0.0.0', 'major'],
+    ['1.2.3.4', '1.3.0.0', 'minor'],
+    ['1.2.3.4', '1.2.4.0', 'patch'],
+    ['1.2.3.4', '1.2.3.5', 'patch'],
+    ['1.2.3', '1.2.3.1', 'patch'],
+    ['1.2.3.4', '1.2.3.5-beta.1', 'patch']
+  ])('should classify %s to %s as %s', (oldVersion, newVersion, expected) => {
+    expect(getBumpType(oldVersion, newVersion, { strategy })).toBe(expected);
+  });
+
+  it('should apply caret-compatible semantics to 0.x versions', () => {
+    expect(
+      getBumpType('0.2.0.1', '0.3.0.0', {
+        strategy,
+        breakingSemantics: 'caret-compatible'
+      })
+    ).toBe('major');
+  });
+
+  it('should throw on invalid versions', () => {
+    expect(() => strategy.parse('1.2.3.4.5')).toThrow(
+      'Invalid four-part version format: 1.2.3.4.5'
+    );
+  });
+});
+
+describe('java-snapshot strategy', () => {
+  const strategy = JAVA_SNAPSHOT_STRATEGY;
+
+  it.each([
+    ['1.2.3', '1.2.4-SNAPSHOT', 'patch'],
+    ['1.2.4-SNAPSHOT', '1.2.4', 'patch'],
+    ['1.9.0', '2.0.0-SNAPSHOT', 'major'],
+    ['2.0.0-SNAPSHOT', '2.0.0', 'major'],
+    ['1.2-SNAPSHOT', '1.3', 'minor']
+  ])('should classify %s to %s as %s', (oldVersion, newVersion, expected) => {
+    expect(getBumpType(oldVersion, newVersion, { strategy })).toBe(expected);
+  });
+
+  it('should treat snapshots as prereleases', () => {
+    expect(getPrereleaseTransition('1.9.0', '2.0.0-SNAPSHOT', strategy)).toBe(
+      'enter'
+    );
+    expect(
+      getBumpType('1.9.0', '2.0.0-SNAPSHOT', { strategy, prerelease: 'ignore' })
+    ).toBe('prerelease');
+  });
+
+  it('should throw on other qualifiers', () => {
+    expect(() => strategy.parse('1.2.3-RELEASE')).toThrow(
+      'Invalid java-snapshot version format: 1.2.3-RELEASE'
+    );
+  });
+});
+
+describe('parseVersioningConfig', () => {
+  it('should parse per-path strategies', () => {
+    const config = parseVersioningConfig([
+      'services/api: calver YY.0M.MICRO',
+      'java/*: java-snapshot'
+    ]);
+
+    expect(config['services/api'].name).toBe('calver');
+    expect(config['services/api'].levels).toEqual(['minor', 'minor', 'patch']);
+    expect(config['java/*']).toBe(JAVA_SNAPSHOT_STRATEGY);
+  });
+
+  it('should throw on unknown strategies', () => {
+    expect(() => parseVersioningConfig(['a: romver'])).toThrow(
+      'Invalid versioning strategy "romver" for a, expected one of: semver, calver, four-part, java-snapshot'
+    );
+  });
+
+  it('should throw on malformed entries', () => {
+    expect(() => parseVersioningConfig(['calver'])).toThrow(
+      'Invalid versioning entry "calver", expected "<path>: <strategy>"'
+    );
+  });
+});
+
+describe('getVersioningStrategy', () => {
+  const config = {
+    'java/core': FOUR_PART_STRATEGY,
+    'java/*': JAVA_SNAPSHOT_STRATEGY
+  };
+
+  it('should prefer exact paths, then globs, then semver', () => {
+    expect(getVersioningStrategy(config, 'java/core')).toBe(FOUR_PART_STRATEGY);
+    expect(getVersioningStrategy(config, 'java/util')).toBe(
+      JAVA_SNAPSHOT_STRATEGY
+    );
+    expect(getVersioningStrategy(config, 'packages/web')).toBe(SEMVER_STRATEGY);
+  });
 });
@@ -1,12 +1,112 @@
 import semver from 'semver';
+import { getPathEntry } from './glob';
 
 export type SemVer = {
   version: string;
   major: number;
   minor: number;
   patch: number;
+  prerelease: (string | number)[];
+  build: string[];
 };
 
+export type VersionBump =
+  | 'major'
+  | 'minor'
+  | 'patch'
+  | 'prerelease'
+  | 'downgraded';
+
+export type BreakingSemantics = 'strict-major' | 'caret-compatible';
+
+export type DetectLevel = 'major' | 'minor' | 'patch';
+
+export type PrereleaseHandling = 'report' | 'ignore' | 'flag';
+
+export type PrereleaseTransition = 'enter' | 'advance' | 'graduate';
+
+export type VersioningStrategyName =
+  | 'semver'
+  | 'calver'
+  | 'four-part'
+  | 'java-snapshot';
+
+export interface ParsedVersion {
+  segments: number[];
+  prerelease: (string | number)[];
+}
+
+export interface VersioningStrategy {
+  name: VersioningStrategyName;
+  // Bump level of each numeric segment, from most to least significant
+  levels: DetectLevel[];
+  parse(version: string): ParsedVersion;
+}
+
+// Versioning strategies keyed by manifest path or glob pattern
+export type VersioningConfig = Record<string, VersioningStrategy>;
+
+export interface BumpOptions {
+  breakingSemantics?: BreakingSemantics;
+  prerelease?: PrereleaseHandling;
+  strategy?: VersioningStrategy;
+}
+
+export const BREAKING_SEMANTICS: BreakingSemantics[] = [
+  'strict-major',
+  'caret-compatible'
+];
+
+export const DETECT_LEVELS: DetectLevel[] = ['major', 'minor', 'patch'];
+
+export const PRERELEASE_HANDLING: PrereleaseHandling[] = [
+  'report',
+  'ignore',
+  'flag'
+];
+
+export const VERSIONING_STRATEGIES: VersioningStrategyName[] = [
+  'semver',
+  'calver',
+  'four-part',
+  'java-snapshot'
+];
+
+export const DEFAULT_CALVER_PATTERN = 'YYYY.MM.MICRO';
+
+// Calendar segments follow the date rather than compatibility, so only MAJOR signals a breaking change
+const CALVER_LEVELS: Record<string, DetectLevel> = {
+  YYYY: 'minor',
+  YY: 'minor',
+  '0Y': 'minor',
+  MM: 'minor',
+  '0M': 'minor',
+  WW: 'minor',
+  '0W': 'minor',
+  DD: 'minor',
+  '0D': 'minor',
+  MAJOR: 'major',
+  MINOR: 'minor',
+  MICRO: 'patch'
+};
+
+/**
+ * Split a dot separated prerelease string into identifiers
+ * @param prerelease - Prerelease string (e.g., "beta.1"), or undefined
+ * @returns Identifiers, with numeric identifiers converted to numbers
+ */
+function parsePrerelease(prerelease: string | undefined): (string | number)[] {
+  if (!prerelease) {
+    return [];
+  }
+
+  return prerelease
+    .split('.')
+    .map((identifier) =>
+      /^\d+$/.test(identifier) ? Number(identifier) : identifier
+    );
+}
+
 /**
  * Parse a version string into SemVer components
  * @param version - Version string (e.g., "1.2.3" or "v1.2.3")
@@ -24,19 +124,369 @@ export function parseVersion(version: string): SemVer {
     version: parsed.version,
     major: parsed.major,
     minor: parsed.minor,
-    patch: parsed.patch
+    patch: parsed.patch,
+    prerelease: [...parsed.prerelease],
+    build: [...parsed.build]
+  };
+}
+
+export const SEMVER_STRATEGY: VersioningStrategy = {
+  name: 'semver',
+  levels: ['major', 'minor', 'patch'],
+  parse(version) {
+    const parsed = parseVersion(version);
+
+    return {
+      segments: [parsed.major, parsed.minor, parsed.patch],
+      prerelease: parsed.prerelease
+    };
+  }
+};
+
+export const FOUR_PART_STRATEGY: VersioningStrategy = {
+  name: 'four-part',
+  levels: ['major', 'minor', 'patch', 'patch'],
+  parse(version) {
+    const match = version.match(
+      /^v?(\d+)(?:\.(\d+))?(?:\.(\d+))?(?:\.(\d+))?(?:-([0-9A-Za-z.-]+))?$/
+    );
+
+    if (!match) {
+      throw new Error(`Invalid four-part version format: ${version}`);
+    }
+
+    return {
+      segments: match.slice(1, 5).map((segment) => Number(segment ?? 0)),
+      prerelease: parsePrerelease(match[5])
+    };
+  }
+};
+
+export const JAVA_SNAPSHOT_STRATEGY: VersioningStrategy = {
+  name: 'java-snapshot',
+  levels: ['major', 'minor', 'patch'],
+  parse(version) {
+    const match = version.match(
+      /^v?(\d+)(?:\.(\d+))?(?:\.(\d+))?(-SNAPSHOT)?$/i
+    );
+
+    if (!match) {
+      throw new Error(`Invalid java-snapshot version format: ${version}`);
+    }
+
+    return {
+      segments: match.slice(1, 4).map((segment) => Number(segment ?? 0)),
+      // A snapshot precedes the release of the same version, like a prerelease
+      prerelease: match[4] ? ['SNAPSHOT'] : []
+    };
+  }
+};
+
+/**
+ * Create a calendar versioning strategy
+ * @param pattern - Dot separated calver segments (e.g., "YYYY.MM.MICRO" or "YY.0M.MAJOR.MICRO")
+ * @returns Strategy where MAJOR segments are major, MICRO segments are patch, and calendar and MINOR segments are minor
+ * @throws Error if the pattern contains an unknown segment
+ */
+export function createCalverStrategy(
+  pattern: string = DEFAULT_CALVER_PATTERN
+): VersioningStrategy {
+  const tokens = pattern.split('.');
+
+  for (const token of tokens) {
+    if (!(token in CALVER_LEVELS)) {
+      throw new Error(
+        `Invalid calver pattern "${pattern}", unknown segment ${token}`
+      );
+    }
+  }
+
+  return {
+    name: 'calver',
+    levels: tokens.map((token) => CALVER_LEVELS[token]),
+    parse(version) {
+      const [release, ...prerelease] = version.replace(/^v/, '').split('-');
+      const segments = release.split('.');
+
+      if (
+        segments.length !== tokens.length ||
+        !segments.every((segment) => /^\d+$/.test(segment))
+      ) {
+        throw new Error(
+          `Invalid calver version format: ${version}, expected ${pattern}`
+        );
+      }
+
+      return {
+        segments: segments.map(Number),
+        prerelease: parsePrerelease(prerelease.join('-'))
+      };
+    }
   };
 }
 
+/**
+ * Create a versioning strategy by name
+ * @param name - Strategy name
+ * @param pattern - Calver pattern, only used by the calver strategy
+ * @returns Versioning strategy
+ */
+export function createVersioningStrategy(
+  name: VersioningStrategyName,
+  pattern?: string
+): VersioningStrategy {
+  switch (name) {
+    case 'calver':
+      return createCalverStrategy(pattern);
+    case 'four-part':
+      return FOUR_PART_STRATEGY;
+    case 'java-snapshot':
+      return JAVA_SNAPSHOT_STRATEGY;
+    default:
+      return SEMVER_STRATEGY;
+  }
+}
+
+/**
+ * Parse per-path versioning strategy entries
+ * @param entries - Entries in the form `<path or glob>: <strategy> [calver pattern]`
+ * @returns Strategies keyed by path or glob pattern
+ * @throws Error if an entry is malformed or names an unknown strategy
+ */
+export function parseVersioningConfig(entries: string[]): VersioningConfig {
+  const config: VersioningConfig = {};
+
+  for (const entry of entries) {
+    const match = entry.match(/^(.+?):\s*(\S+)(?:\s+(\S+))?$/);
+
+    if (!match) {
+      throw new Error(
+        `Invalid versioning entry "${entry}", expected "<path>: <strategy>"`
+      );
+    }
+
+    const [, path, name, pattern] = match;
+
+    if (!VERSIONING_STRATEGIES.includes(name as VersioningStrategyName)) {
+      throw new Error(
+        `Invalid versioning strategy "${name}" for ${path}, expected one of: ${VERSIONING_STRATEGIES.join(', ')}`
+      );
+    }
+
+    config[path.trim()] = createVersioningStrategy(
+      name as VersioningStrategyName,
+      pattern
+    );
+  }
+
+  return config;
+}
+
+/**
+ * Get the versioning strategy for a manifest path
+ * @param config - Strategies keyed by path or glob pattern
+ * @param path - Package path from the manifest
+ * @returns The strategy of the exact path, else of the first matching glob, else semver
+ */
+export function getVersioningStrategy(
+  config: VersioningConfig,
+  path: string
+): VersioningStrategy {
+  return getPathEntry(config, path) ?? SEMVER_STRATEGY;
+}
+
+/**
+ * Compare prerelease identifiers using semver precedence
+ * @param a - Prerelease identifiers
+ * @param b - Prerelease identifiers
+ * @returns Negative if a is lower, positive if higher, 0 if equal
+ */
+function comparePrerelease(
+  a: (string | number)[],
+  b: (string | number)[]
+): number {
+  // A release has higher precedence than any of its prereleases
+  if (a.length === 0 || b.length === 0) {
+    return b.length - a.length;
+  }
+
+  for (let index = 0; index < Math.min(a.length, b.length); index++) {
+    const [left, right] = [a[index], b[index]];
+
+    if (left === right) {
+      continue;
+    }
+
+    if (typeof left === 'number' && typeof right === 'number') {
+      return left - right;
+    }
+
+    // Numeric identifiers have lower precedence than alphanumeric ones
+    if (typeof left === 'number' || typeof right === 'number') {
+      return typeof left === 'number' ? -1 : 1;
+    }
+
+    return left < right ? -1 : 1;
+  }
+
+  return a.length - b.length;
+}
+
+/**
+ * Compare two parsed versions
+ * @param a - Parsed version
+ * @param b - Parsed version
+ * @returns Negative if a is lower, positive if higher, 0 if equal
+ */
+export function compareVersions(a: ParsedVersion, b: ParsedVersion): number {
+  for (let index = 0; index < a.segments.length; index++) {
+    if (a.segments[index] !== b.segments[index]) {
+      return a.segments[index] - b.segments[index];
+    }
+  }
+
+  return comparePrerelease(a.prerelease, b.prerelease);
+}
+
 /**
  * Check if a version change represents a major bump
  * @param oldVersion - Previous version string
  * @param newVersion - New version string
- * @returns true if the major version increased
+ * @param options - Bump classification options
+ * @returns true if the version change is classified as a major bump
+ */
+export function isMajorBump(
+  oldVersion: string,
+  newVersion: string,
+  options: BumpOptions = {}
+): boolean {
+  return getBumpType(oldVersion, newVersion, options) === 'major';
+}
+
+/**
+ * Determine how a version change moves into, within or out of a prerelease
+ * @param oldVersion - Previous version string
+ * @param newVersion - New version string
+ * @param strategy - Versioning strategy used to parse both versions (defaults to semver)
+ * @returns `enter` when moving onto a new prerelease line (`1.9.0` → `2.0.0-alpha.0`), `advance` within the same line (`2.0.0-alpha.0` → `2.0.0-rc.1`), `graduate` when the line is released as stable (`2.0.0-rc.1` → `2.0.0`), or null otherwise
+ */
+export function getPrereleaseTransition(
+  oldVersion: string,
+  newVersion: string,
+  strategy: VersioningStrategy = SEMVER_STRATEGY
+): PrereleaseTransition | null {
+  const oldVer = strategy.parse(oldVersion);
+  const newVer = strategy.parse(newVersion);
+
+  if (compareVersions(newVer, oldVer) <= 0) {
+    return null;
+  }
+
+  const sameLine = newVer.segments.every(
+    (segment, index) => segment === oldVer.segments[index]
+  );
+
+  if (newVer.prerelease.length > 0) {
+    return sameLine && oldVer.prerelease.length > 0 ? 'advance' : 'enter';
+  }
+
+  return sameLine && oldVer.prerelease.length > 0 ? 'graduate' : null;
+}
+
+/**
+ * Get the level of the release line a version belongs to
+ * @param version - Parsed version
+ * @param levels - Bump level of each segment
+ * @returns The level of the last non-zero segment after the first (e.g., `major` for X.0.0, `minor` for X.Y.0 and `patch` otherwise with semver)
+ */
+function getReleaseLineLevel(
+  version: ParsedVersion,
+  levels: DetectLevel[]
+): DetectLevel {
+  for (let index = version.segments.length - 1; index > 0; index--) {
+    if (version.segments[index] > 0) {
+      return levels[index];
+    }
+  }
+
+  return levels[0];
+}
+
+/**
+ * Classify the change between two versions
+ *
+ * With `caret-compatible` semantics, bumps that a caret range (`^0.4.2`) would
+ * not accept are breaking, so `0.4.2` → `0.5.0` and `0.0.3` → `0.0.4` are
+ * classified as major.
+ *
+ * Entering a new prerelease line and graduating it to stable are classified by
+ * the level of that line with the `report` prerelease handling (the default),
+ * and as `prerelease` with `ignore` or `flag`.
+ *
+ * The level of a bump is the level the versioning strategy assigns to the
+ * most significant segment that increased.
+ * @param oldVersion - Previous version string
+ * @param newVersion - New version string
+ * @param options - Bump classification options
+ * @returns The highest component that increased, `downgraded` if the new version is lower, or null if they are equal
+ */
+export function getBumpType(
+  oldVersion: string,
+  newVersion: string,
+  options: BumpOptions = {}
+): VersionBump | null {
+  const strategy = options.strategy ?? SEMVER_STRATEGY;
+  const oldVer = strategy.parse(oldVersion);
+  const newVer = strategy.parse(newVersion);
+  const comparison = compareVersions(newVer, oldVer);
+
+  if (comparison === 0) {
+    return null;
+  }
+
+  if (comparison < 0) {
+    return 'downgraded';
+  }
+
+  const transition = getPrereleaseTransition(oldVersion, newVersion, strategy);
+  const handling = options.prerelease ?? 'report';
+
+  if (transition === 'advance' || (transition && handling !== 'report')) {
+    return 'prerelease';
+  }
+
+  const changed = newVer.segments.findIndex(
+    (segment, index) => segment !== oldVer.segments[index]
+  );
+  const level =
+    transition === 'graduate'
+      ? getReleaseLineLevel(newVer, strategy.levels)
+      : strategy.levels[changed];
+
+  if (
+    options.breakingSemantics === 'caret-compatible' &&
+    strategy.levels[0] === 'major' &&
+    oldVer.segments[0] === 0
+  ) {
+    if (level === 'minor' || (level === 'patch' && oldVer.segments[1] === 0)) {
+      return 'major';
+    }
+  }
+
+  return level;
+}
+
+/**
+ * Check if a bump type meets a detection threshold
+ * @param bump - Bump type to check
+ * @param level - Lowest bump level that should be detected
+ * @returns true if the bump is at or above the detection level
  */
-export function isMajorBump(oldVersion: string, newVersion: string): boolean {
-  const oldVer = parseVersion(oldVersion);
-  const newVer = parseVersion(newVersion);
+export function meetsDetectLevel(
+  bump: string | null,
+  level: DetectLevel
+): boolean {
+  const rank = DETECT_LEVELS.indexOf(bump as DetectLevel);
 
-  return newVer.major > oldVer.major;
+  return rank !== -1 && rank <= DETECT_LEVELS.indexOf(level);
 }
@@ -0,0 +1,188 @@
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { describe, expect, it } from 'vitest';
+import { respond, useTestServer } from './test-server';
+import {
+  DEFAULT_WEBHOOK_TEMPLATE,
+  type WebhookData,
+  parseWebhookHeaders,
+  renderWebhookPayload,
+  sendWebhook
+} from './webhook';
+
+const data: WebhookData = {
+  repository: 'test-owner/test-repo',
+  sha: 'head-sha',
+  pullRequest: 7,
+  pullRequestUrl: 'https://github.com/test-owner/test-repo/pull/7',
+  bumps: [
+    {
+      path: 'packages/foo',
+      component: 'foo',
+      old: '1.2.3',
+      new: '2.0.0',
+      bump: 'major'
+    },
+    { path: '.', component: null, old: '0.9.0', new: '1.0.0', bump: 'major' }
+  ]
+};
+
+describe('parseWebhookHeaders', () => {
+  it('should parse name and value pairs', () => {
+    expect(
+      parseWebhookHeaders([
+        'Authorization: Bearer abc:123',
+        'X-Source:detect-major'
+      ])
+    ).toEqual({
+      Authorization: 'Bearer abc:123',
+      'X-Source': 'detect-major'
+    });
+  });
+
+  it('should throw on malformed entries', () => {
+    expect(() => parseWebhookHeaders(['Authorization'])).toThrow(
+      'Invalid webhook header "Authorization", expected "<name>: <value>"'
+    );
+  });
+});
+
+describe('renderWebhookPayload', () => {
+  it('should render the default template as JSON', () => {
+    expect(
+      JSON.parse(renderWebhookPayload(DEFAULT_WEBHOOK_TEMPLATE, data))
+    ).toEqual({
+      text: '🚨 Major version bumps in test-owner/test-repo https://github.com/test-owner/test-repo/pull/7\n• packages/foo: 1.2.3 → 2.0.0\n• .: 0.9.0 → 1.0.0',
+      repository: 'test-owner/test-repo',
+      sha: 'head-sha',
+      pullRequest: 7,
+      pullRequestUrl: 'https://github.com/test-owner/test-repo/pull/7',
+      bumps: data.bumps
+    });
+  });
+
+  it('should escape strings and repeat sections for each bump', () => {
+    expect(
+      renderWebhookPayload(
+        '{"text": "{{repository}}: {{#bumps}}{{component}} {{new}}; {{/bumps}}"}',
+        { ...data, repository: 'say "hi"' }
+      )
+    ).toBe('{"text": "say \\"hi\\": foo 2.0.0; null 1.0.0; "}');
+  });
+
+  it('should throw on unknown placeholders and sections', () => {
+    expect(() => renderWebhookPayload('{{repo}}', data)).toThrow(
+      'Unknown webhook template placeholder {{repo}}, expected one of: repository, sha, pullRequest, pullRequestUrl, bumps'
+    );
+    expect(() =>
+      renderWebhookPayload('{{#repository}}x{{/repository}}', data)
+    ).toThrow('Unknown webhook template section {{#repository}}');
+  });
+});
+
+describe('sendWebhook', () => {
+  const server = useTestServer('/hook');
+
+  it('should POST the payload with JSON and custom headers', async () => {
+    server.handlers.push(respond(204));
+
+    await expect(
+      sendWebhook(server.url, '{"text":"hi"}', {
+        headers: { Authorization: 'Bearer abc' }
+      })
+    ).resolves.toBe(204);
+    expect(server.requests).toEqual([
+      {
+        url: '/hook',
+        headers: expect.objectContaining({
+          authorization: 'Bearer abc',
+          'content-type': 'application/json'
+        }),
+        body: '{"text":"hi"}'
+      }
+    ]);
+  });
+
+  it('should let headers override the content type', async () => {
+    server.handlers.push(respond(200));
+
+    await sendWebhook(server.url, 'hi', {
+      headers: { 'Content-Type': 'text/plain' }
+    });
+
+    expect(server.requests[0].headers['content-type']).toBe('text/plain');
+  });
+
+  it('should retry server errors and rate limits', async () => {
+    const retries: [number, number][] = [];
+    server.handlers.push(
+      respond(502),
+      respond(429, undefined, { 'retry-after': '0' })
+    );
+    server.handlers.push(respond(200));
+
+    await expect(
+      sendWebhook(server.url, '{}', {
+        minDelay: 1,
+        onRetry: (_error, delay, attempt) => retries.push([delay, attempt])
+      })
+    ).resolves.toBe(200);
+    expect(server.requests).toHaveLength(3);
+    expect(retries).toEqual([
+      [1, 1],
+      [0, 2]
+    ]);
+  });
+
+  it('should give up after the configured number of retries', async () => {
+    server.handlers.push(respond(500), respond(500));
+
+    await expect(
+      sendWebhook(server.url, '{}', { retries: 1, minDelay: 1 })
+    ).rejects.toThrow('Webhook responded with 500 Internal Server Error');
+    expect(server.requests).toHaveLength(2);
+  });
+
+  it('should not retry client errors', async () => {
+    server.handlers.push(respond(404));
+
+    await expect(
+      sendWebhook(server.url, '{}', { minDelay: 1 })
+    ).rejects.toThrow('Webhook responded with 404 Not Found');
+    expect(server.requests).toHaveLength(1);
+  });
+
+  it('should retry requests that time out', async () => {
+    const retries: string[] = [];
+    server.handlers.push(() => {}, respond(200));
+
+    await expect(
+      sendWebhook(server.url, '{}', {
+        timeout: 50,
+        minDelay: 1,
+        onRetry: (error) => retries.push((error as Error).message)
+      })
+    ).resolves.toBe(200);
+    expect(server.requests).toHaveLength(2);
+    expect(retries).toEqual(['Webhook did not respond within 50ms']);
+  });
+
+  it('should retry network errors', async () => {
+    const retries: number[] = [];
+    const closed = createServer();
+    await new Promise<void>((resolve) =>
+      closed.listen(0, '127.0.0.1', resolve)
+    );
+    const { port } = closed.address() as AddressInfo;
+    await new Promise((resolve) => closed.close(resolve));
+
+    await expect(
+      sendWebhook(`http://127.0.0.1:${port}/hook`, '{}', {
+        retries: 2,
+        minDelay: 1,
+        onRetry: (_error, delay) => retries.push(delay)
+      })
+    ).rejects.toThrow();
+    expect(retries).toEqual([1, 2]);
+  });
+});
@@ -0,0 +1,195 @@
+import { getRetryDelay } from './api';
+import type { MatrixEntry } from './matrix';
+
+export interface WebhookData {
+  repository: string;
+  sha: string;
+  pullRequest: number | null;
+  pullRequestUrl: string;
+  bumps: MatrixEntry[];
+}
+
+export interface WebhookOptions {
+  headers?: Record<string, string>;
+  retries?: number;
+  minDelay?: number;
+  maxDelay?: number;
+  timeout?: number;
+  sleep?: (ms: number) => Promise<void>;
+  onRetry?: (error: unknown, delay: number, attempt: number) => void;
+}
+
+export const DEFAULT_WEBHOOK_TEMPLATE = `{
+  "text": "🚨 Major version bumps in {{repository}} {{pullRequestUrl}}{{#bumps}}\\n• {{path}}: {{old}} → {{new}}{{/bumps}}",
+  "repository": "{{repository}}",
+  "sha": "{{sha}}",
+  "pullRequest": {{pullRequest}},
+  "pullRequestUrl": "{{pullRequestUrl}}",
+  "bumps": {{bumps}}
+}`;
+
+const SECTION_PATTERN = /\{\{#(\w+)\}\}([\s\S]*?)\{\{\/\1\}\}/g;
+const PLACEHOLDER_PATTERN = /\{\{(\w+)\}\}/g;
+
+/**
+ * Parse webhook header entries
+ * @param entries - Entries in the form `<name>: <value>`
+ * @returns Header values keyed by name
+ * @throws Error if an entry is malformed
+ */
+export function parseWebhookHeaders(entries: string[]): Record<string, string> {
+  const headers: Record<string, string> = {};
+
+  for (const entry of entries) {
+    const match = entry.match(/^([^:\s]+)\s*:\s*(.*)$/);
+
+    if (!match) {
+      throw new Error(
+        `Invalid webhook header "${entry}", expected "<name>: <value>"`
+      );
+    }
+
+    headers[match[1]] = match[2].trim();
+  }
+
+  return headers;
+}
+
+/**
+ * Replace the `{{name}}` placeholders of a template
+ * @param template - Template text
+ * @param values - Values keyed by placeholder name
+ * @returns Rendered text
+ * @throws Error if a placeholder has no value
+ */
+function fillPlaceholders(
+  template: string,
+  values: Record<string, unknown>
+): string {
+  return template.replace(PLACEHOLDER_PATTERN, (_match, name: string) => {
+    if (!(name in values)) {
+      throw new Error(
+        `Unknown webhook template placeholder {{${name}}}, expected one of: ${Object.keys(values).join(', ')}`
+      );
+    }
+
+    const value = values[name];
+
+    // Strings are escaped to sit inside JSON strings, anything else is inserted as JSON
+    return typeof value === 'string'
+      ? JSON.stringify(value).slice(1, -1)
+      : JSON.stringify(value);
+  });
+}
+
+/**
+ * Render a webhook payload template
+ * @param template - Template with `{{name}}` placeholders for each `WebhookData` field and `{{#bumps}}...{{/bumps}}` sections repeated for each bump, where `{{path}}`, `{{component}}`, `{{old}}`, `{{new}}` and `{{bump}}` are available
+ * @param data - Analysis data
+ * @returns Rendered payload
+ * @throws Error if the template uses an unknown placeholder or section
+ */
+export function renderWebhookPayload(
+  template: string,
+  data: WebhookData
+): string {
+  const values: Record<string, unknown> = { ...data };
+  const withSections = template.replace(
+    SECTION_PATTERN,
+    (_match, name: string, section: string) => {
+      const items = values[name];
+
+      if (!Array.isArray(items)) {
+        throw new Error(
+          `Unknown webhook template section {{#${name}}}, expected bumps`
+        );
+      }
+
+      return items
+        .map((item) =>
+          fillPlaceholders(section, { manifest: null, ...values, ...item })
+        )
+        .join('');
+    }
+  );
+
+  return fillPlaceholders(withSections, values);
+}
+
+/**
+ * POST a payload to a webhook, retrying server errors, rate limits, network errors and timeouts
+ * @param url - Webhook URL
+ * @param payload - Request body
+ * @param options - Extra headers (the content type defaults to JSON), number of retries (defaults to 3), first backoff delay (defaults to 1s), longest delay to wait before giving up (defaults to 2m), time to wait for each response (defaults to 30s) and a callback for each retry
+ * @returns Response status
+ * @throws Error if the webhook still fails after retrying, or responds with a status that isn't retried
+ */
+export async function sendWebhook(
+  url: string,
+  payload: string,
+  options: WebhookOptions = {}
+): Promise<number> {
+  const {
+    retries = 3,
+    minDelay = 1000,
+    maxDelay = 120_000,
+    timeout = 30_000,
+    sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms)),
+    onRetry
+  } = options;
+  const headers = new Headers({ 'content-type': 'application/json' });
+
+  for (const [name, value] of Object.entries(options.headers ?? {})) {
+    headers.set(name, value);
+  }
+
+  for (let attempt = 0; ; attempt++) {
+    let error: Error;
+    let delay: number | null;
+
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers,
+        body: payload,
+        signal: AbortSignal.timeout(timeout)
+      });
+
+      if (response.ok) {
+        return response.status;
+      }
+
+      error = new Error(
+        `Webhook responded with ${response.status} ${response.statusText}`
+      );
+      delay = getRetryDelay(
+        {
+          status: response.status,
+          response: {
+            headers: {
+              'retry-after': response.headers.get('retry-after') ?? undefined
+            }
+          }
+        },
+        attempt,
+        minDelay
+      );
+    } catch (fetchError) {
+      // Network errors, such as a refused connection, and timeouts
+      error =
+        fetchError instanceof Error && fetchError.name === 'TimeoutError'
+          ? new Error(`Webhook did not respond within ${timeout}ms`)
+          : fetchError instanceof Error
+            ? fetchError
+            : new Error(String(fetchError));
+      delay = minDelay * 2 ** attempt;
+    }
+
+    if (attempt >= retries || delay === null || delay > maxDelay) {
+      throw error;
+    }
+
+    onRetry?.(error, delay, attempt + 1);
+    await sleep(delay);
+  }
+}